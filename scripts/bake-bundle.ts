@@ -0,0 +1,93 @@
+// Bakes models into point cloud bundles (see src/utils/pointBundle.ts):
+//
+//   npm run bake -- public/models/Queen.obj --count 15000 --seed 1 --normals
+//
+// Each model is written next to it as <name>.pmb, or into --out.
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ModelLoader } from "../src/utils/ModelLoader";
+import {
+  encodePointBundle,
+  BUNDLE_EXTENSION,
+  BUNDLE_VERSION,
+} from "../src/utils/pointBundle";
+
+const USAGE = `Usage: npm run bake -- <model>... [options]
+
+Options:
+  --count <n>   Points per model (default 15000)
+  --seed <n>    Sampling seed (default 1)
+  --normals     Include surface normals
+  --colors      Include vertex colors, for models that have them
+  --out <dir>   Output directory (default: next to each model)`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      count: { type: "string", default: "15000" },
+      seed: { type: "string", default: "1" },
+      normals: { type: "boolean", default: false },
+      colors: { type: "boolean", default: false },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const count = Number(values.count);
+  const seed = Number(values.seed);
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error(`--count must be a positive integer, not ${values.count}`);
+  }
+  if (!Number.isInteger(seed) || seed < 0) {
+    throw new Error(
+      `--seed must be a non-negative integer, not ${values.seed}`
+    );
+  }
+
+  const loader = new ModelLoader();
+  loader.setSeed(seed);
+  if (values.out) await mkdir(values.out, { recursive: true });
+
+  for (const file of positionals) {
+    const buffer = await readFile(file);
+    // A copy, since Node pools small files into one shared buffer
+    const data = buffer.buffer.slice(
+      buffer.byteOffset,
+      buffer.byteOffset + buffer.byteLength
+    );
+    const name = path.basename(file);
+    const sampled = await loader.sampleFile(data, name, count, {
+      normals: values.normals,
+      colors: values.colors,
+    });
+    if (!sampled) throw new Error(`No usable geometry in ${file}`);
+    if (values.normals && !sampled.normals) {
+      console.warn(`${name}: a point list has no normals; left out`);
+    }
+    if (values.colors && !sampled.colors) {
+      console.warn(`${name}: no vertex colors; left out`);
+    }
+
+    const bundle = encodePointBundle({ ...sampled, seed });
+    const target = path.join(
+      values.out ?? path.dirname(file),
+      path.basename(file, path.extname(file)) + BUNDLE_EXTENSION
+    );
+    await writeFile(target, new Uint8Array(bundle));
+    console.log(
+      `${target}: ${count} points, v${BUNDLE_VERSION}, ${Math.round(
+        bundle.byteLength / 1024
+      )} KB`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
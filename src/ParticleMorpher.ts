@@ -0,0 +1,2038 @@
+import * as THREE from "three";
+import { gsap } from "gsap";
+import { vertexShader, fragmentShader } from "./shaders";
+import { ModelLoader, SampledPoints } from "./utils/ModelLoader";
+import { shapeRegistry } from "./shapes";
+import { CorrespondenceSolver } from "./utils/CorrespondenceSolver";
+import { applyCorrespondence, MatchingMethod } from "./utils/correspondence";
+import {
+  createEaseTexture,
+  updateEaseTexture,
+  interpolatePositions,
+  interpolateColors,
+  interpolateNormals,
+  radialNormals,
+  MorphState,
+  Transition,
+  TransitionStyle,
+  TRANSITION_STYLES,
+  EASE_SAMPLES,
+} from "./utils/gpuMorph";
+import {
+  TextShapeGenerator,
+  TextShapeOptions,
+  DEFAULT_TEXT_OPTIONS,
+} from "./utils/TextShapeGenerator";
+import {
+  ImageShapeGenerator,
+  ImageShapeOptions,
+  DEFAULT_IMAGE_OPTIONS,
+} from "./utils/ImageShapeGenerator";
+import { parseSequence, SequenceStep } from "./sequence/Sequence";
+import { Sequencer } from "./sequence/Sequencer";
+import { StateManager } from "./managers/StateManager";
+import { CameraManager } from "./managers/CameraManager";
+import { PostProcessingManager } from "./managers/PostProcessingManager";
+import { createRng, Rng } from "./utils/random";
+import {
+  PointerTracker,
+  TrackedPointer,
+  MAX_POINTERS,
+} from "./utils/PointerTracker";
+import { downloadBlob } from "./utils/download";
+import {
+  encodePointCloud,
+  PointCloud,
+  PointCloudFormat,
+  POINT_CLOUD_EXTENSIONS,
+} from "./utils/pointCloudExport";
+import { AudioAnalyzer, AudioBand } from "./utils/AudioAnalyzer";
+import { EventEmitter } from "./utils/EventEmitter";
+import { QualityGovernor, QualityLevel } from "./utils/QualityGovernor";
+import { COLOR_MODES, shadeColors } from "./utils/colorModes";
+import {
+  FrameExporter,
+  ExportOptions,
+  ExportCancelledError,
+} from "./utils/FrameExporter";
+import { SavedState } from "./utils/settingsState";
+import {
+  UIManager,
+  SettingUpdate,
+  PresetUpdate,
+  ParticleSettings,
+  MorphPolicy,
+  INTERACTION_MODES,
+  SHADING_MODES,
+  DEFAULT_SETTINGS,
+} from "./managers/UIManager";
+
+interface ParticleSnapshot {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  randoms: Float32Array;
+}
+
+/** What an export starts with; see `runExport`. */
+export type ExportStart = "current" | "next" | "sequence";
+
+export interface MorphOptions {
+  matching?: MatchingMethod;
+  policy?: MorphPolicy;
+  /** Seconds; defaults to the morph duration setting. */
+  duration?: number;
+  ease?: string;
+  /** Camera keyframe to move to alongside the morph. */
+  camera?: string;
+  /**
+   * A transition style, or a style with parameters; anything left out
+   * comes from the morph settings.
+   */
+  transition?: TransitionStyle | Partial<Transition>;
+}
+
+interface MorphRequest {
+  shape: string;
+  matching: MatchingMethod;
+  duration?: number;
+  ease?: string;
+  camera?: string;
+  transition: Transition;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export interface PointCloudOptions {
+  /** A shape to export instead of the particles as they are now. */
+  shape?: string;
+  /** Bakes the current model rotation into live positions. */
+  applyRotation?: boolean;
+}
+
+/** A model file to load at start, available as the shape `key`. */
+export interface ModelDefinition {
+  key: string;
+  /**
+   * OBJ, STL, PLY, glTF/GLB, a point list or a baked bundle (.pmb),
+   * resolved against the page.
+   */
+  url: string;
+  /** Shape button label when the UI is on; defaults to the key. */
+  label?: string;
+}
+
+export const DEFAULT_MODELS: ModelDefinition[] = [
+  { key: "queen", url: "models/Queen.obj", label: "Queen" },
+  { key: "pawn", url: "models/Pawn.obj", label: "Pawn" },
+];
+
+export interface ParticleMorpherOptions {
+  /** Canvas to render into; one is created inside `container` if left out. */
+  canvas?: HTMLCanvasElement;
+  /** Element the renderer is sized to; defaults to the canvas' parent. */
+  container?: HTMLElement;
+  /** Models loaded at start, in auto-morph order. */
+  models?: ModelDefinition[];
+  /** Overrides of DEFAULT_SETTINGS. */
+  settings?: Partial<ParticleSettings>;
+  /** Shape shown first; defaults to the first model. */
+  shape?: string;
+  /** Sequence JSON to play once the models are in, instead of `shape`. */
+  sequence?: string;
+  /** Binds the control panel of the demo page; only one instance can. */
+  ui?: boolean;
+  /** Restores and saves the look in the URL hash and localStorage. */
+  persist?: boolean;
+}
+
+export interface ParticleMorpherEvents {
+  /** Particles set off towards `shape`, arriving in `duration` seconds. */
+  morphStart: { shape: string; duration: number };
+  /** Particles arrived; not emitted for morphs that are superseded. */
+  morphEnd: { shape: string };
+  /** Loading of the start-up models; `percent` covers all of them. */
+  progress: { loaded: number; total: number; percent: number };
+  /** Models are loaded and the first shape or sequence has started. */
+  ready: void;
+  error: Error;
+}
+
+/** Rejects a morph that was interrupted, dropped or removed before it ran. */
+export class MorphSupersededError extends Error {
+  constructor(shape: string) {
+    super(`Morph to ${shape} was superseded`);
+    this.name = "MorphSupersededError";
+  }
+}
+
+// Rings alive at once; a new one replaces the oldest
+const MAX_SHOCKWAVES = 4;
+// Seconds a ring lasts, and how fast (units/s) it expands
+const SHOCKWAVE_LIFE = 2;
+const SHOCKWAVE_SPEED = 20;
+// How often (ms) the FPS counter and performance overlay update
+const STATS_INTERVAL = 250;
+// Camera distance at which attenuated particles keep their set size
+const ATTENUATION_DISTANCE = 40;
+
+/**
+ * Particles morphing between shapes, rendered into one canvas. Several can
+ * live on a page; `dispose` releases everything an instance holds.
+ */
+export class ParticleMorpher {
+  private canvas: HTMLCanvasElement;
+  private container: HTMLElement;
+  // A canvas created here is removed again on dispose
+  private ownsCanvas: boolean;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private cameraManager: CameraManager;
+  private postProcessing: PostProcessingManager;
+  private renderer: THREE.WebGLRenderer;
+  private settings: ParticleSettings;
+  private particles: THREE.Points | null = null;
+  private readonly models: { [key: string]: Float32Array } = {};
+  private readonly modelColors: { [key: string]: Float32Array } = {};
+  // Sampled surface normals; other shapes get radial ones
+  private readonly modelNormals: { [key: string]: Float32Array } = {};
+  // Resamples a shape at a new particle count
+  private readonly modelSources: {
+    [key: string]: (count: number) => Promise<Float32Array | null>;
+  } = {};
+  private currentShape: string = "queen";
+  private targetShape: string = "queen";
+  private activeMorph: MorphRequest | null = null;
+  // Transition of the running or last morph, as uploaded to the shader
+  private transition: Transition;
+  // Picks auto-morph transitions when they are shuffled
+  private transitionRng: Rng;
+  private morphQueue: MorphRequest[] = [];
+  // The morph of the sequence step last entered
+  private stepMorph: MorphRequest | null = null;
+  // Incremented per morph run, so stale correspondence results are dropped
+  private morphId: number = 0;
+  private customModelCount: number = 0;
+  private readonly userShapes: Set<string> = new Set();
+  private lastTime: number = 0;
+  private governor: QualityGovernor;
+  // Time (ms) of the last stats update in the UI
+  private lastStatsTime: number = 0;
+  private lastMorphTime: number = 0;
+  // Custom particle sprite, replacing the disc
+  private sprite: THREE.Texture | null = null;
+  // Time (ms) of the last rendered frame: real, or virtual while exporting
+  private clockTime: number = 0;
+  private pointerTracker: PointerTracker;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private modelLoader: ModelLoader;
+  private textGenerator: TextShapeGenerator;
+  private imageGenerator: ImageShapeGenerator;
+  private correspondence: CorrespondenceSolver;
+  private sequencer: Sequencer;
+  private stateManager: StateManager;
+  private exporter: FrameExporter;
+  private audio: AudioAnalyzer = new AudioAnalyzer();
+  private uiManager: UIManager | null = null;
+  private modelList: ModelDefinition[];
+  private initialSequence?: string;
+  private persist: boolean;
+  private events = new EventEmitter<ParticleMorpherEvents>();
+  // "setting-update" events from this instance's UIManager
+  private uiEvents: EventTarget = new EventTarget();
+  // Aborted on dispose, removing every window and document listener
+  private listeners: AbortController = new AbortController();
+  private resizeObserver: ResizeObserver;
+  private frameId: number = 0;
+  private disposed: boolean = false;
+
+  constructor(options: ParticleMorpherOptions = {}) {
+    const container = options.container ?? options.canvas?.parentElement;
+    if (!container) {
+      throw new Error("ParticleMorpher needs a canvas or a container");
+    }
+    this.container = container;
+    this.ownsCanvas = !options.canvas;
+    const canvas = options.canvas ?? this.createCanvas(container);
+    this.canvas = canvas;
+    this.modelList = options.models ?? DEFAULT_MODELS;
+    this.initialSequence = options.sequence;
+    this.persist = options.persist ?? false;
+
+    // Start from a shared link or the last visit, on top of the defaults
+    this.stateManager = new StateManager((error) => this.reportError(error));
+    this.exporter = new FrameExporter({
+      canvas,
+      beginExport: (width, height) => this.beginExport(width, height),
+      renderFrame: (time) => this.renderFrame(time),
+      endExport: () => this.endExport(),
+    });
+    const restored = this.persist ? this.stateManager.restore() : null;
+    this.settings = {
+      ...DEFAULT_SETTINGS,
+      ...options.settings,
+      ...restored?.settings,
+    };
+    // Tweened in place, so it must not be shared with another instance
+    this.settings.currentColor = this.settings.currentColor.clone();
+    const shape = restored?.shape ?? options.shape ?? this.modelList[0]?.key;
+    if (shape) this.currentShape = this.targetShape = shape;
+    this.transition = this.resolveTransition();
+    this.transitionRng = createRng(this.settings.seed, "transitions");
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(0x030012);
+
+    const { width, height } = this.getSize();
+    this.camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 2000);
+    this.cameraManager = new CameraManager(this.camera, canvas);
+    this.pointerTracker = new PointerTracker(canvas, (pointer) =>
+      this.fireShockwave(pointer)
+    );
+    // Pointers meet the cloud at the nearest particle within this distance
+    this.raycaster.params.Points.threshold = 0.5;
+
+    this.renderer = new THREE.WebGLRenderer({
+      canvas,
+      antialias: true,
+      alpha: true,
+    });
+    this.postProcessing = new PostProcessingManager(
+      this.renderer,
+      this.scene,
+      this.camera
+    );
+    this.governor = new QualityGovernor((level) => this.applyQuality(level));
+    this.renderer.setPixelRatio(this.pixelRatio());
+    // CSS sizes the canvas to the container; only the buffer is set here
+    this.renderer.setSize(width, height, false);
+    this.resizeObserver = new ResizeObserver(() => this.handleResize());
+
+    this.modelLoader = new ModelLoader();
+    this.modelLoader.setSeed(this.settings.seed);
+    this.textGenerator = new TextShapeGenerator(this.modelLoader);
+    this.imageGenerator = new ImageShapeGenerator();
+    this.imageGenerator.setSeed(this.settings.seed);
+    this.correspondence = new CorrespondenceSolver();
+    this.sequencer = new Sequencer(
+      {
+        playStep: (step, duration) => this.playStep(step, duration),
+        setMorphPaused: (paused) => this.setMorphPaused(paused),
+      },
+      (state) => this.uiManager?.updateSequence(state)
+    );
+    if (options.ui) {
+      this.uiManager = new UIManager(
+        this.settings,
+        (shape) =>
+          this.morphTo(shape).catch((error) =>
+            this.reportUnlessSuperseded(error)
+          ),
+        (color) => this.setColor(color),
+        this.uiEvents
+      );
+    }
+
+    this.init();
+  }
+
+  /** Adds a listener; returns a function that removes it again. */
+  public on<K extends keyof ParticleMorpherEvents>(
+    event: K,
+    listener: (payload: ParticleMorpherEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  public off<K extends keyof ParticleMorpherEvents>(
+    event: K,
+    listener: (payload: ParticleMorpherEvents[K]) => void
+  ) {
+    this.events.off(event, listener);
+  }
+
+  private async init() {
+    this.setupParticles();
+    this.setupEvents();
+    if (this.uiManager) {
+      this.uiManager.init();
+      this.uiManager.updatePresets(this.stateManager.listPresets());
+      this.uiManager.updateCameraKeyframes(this.cameraManager.listKeyframes());
+    }
+
+    await this.loadModels();
+    if (this.disposed) return;
+
+    const sequence = this.initialSequence;
+    if (!sequence || !(await this.loadSequence(sequence))) {
+      // Shapes added by hand last time (files, images) do not survive a reload
+      const shape = this.isKnownShape(this.currentShape)
+        ? this.currentShape
+        : Object.keys(this.models)[0];
+      // A morph asked for while the models loaded goes ahead instead
+      const requested = this.activeMorph !== null || this.morphId > 0;
+      if (shape && !requested)
+        this.morphTo(shape).catch((error) =>
+          this.reportUnlessSuperseded(error)
+        );
+    }
+    if (this.disposed) return;
+    this.events.emit("ready", undefined);
+    this.animate();
+  }
+
+  private createCanvas(container: HTMLElement): HTMLCanvasElement {
+    const canvas = document.createElement("canvas");
+    canvas.style.display = "block";
+    canvas.style.width = "100%";
+    canvas.style.height = "100%";
+    // Touch drags orbit the camera instead of scrolling the page
+    canvas.style.touchAction = "none";
+    container.append(canvas);
+    return canvas;
+  }
+
+  private getSize(): { width: number; height: number } {
+    return {
+      width: Math.max(this.container.clientWidth, 1),
+      height: Math.max(this.container.clientHeight, 1),
+    };
+  }
+
+  /** Reports to "error" listeners, or to the console if there are none. */
+  private reportError(error: unknown) {
+    const reported = error instanceof Error ? error : new Error(String(error));
+    if (!this.events.emit("error", reported)) console.error(reported);
+  }
+
+  // For fire-and-forget morphs, where being superseded is expected
+  private reportUnlessSuperseded(error: unknown) {
+    if (!(error instanceof MorphSupersededError)) this.reportError(error);
+  }
+
+  private setupParticles() {
+    const geometry = this.createGeometry(this.settings.particleCount);
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uPointers: {
+          value: Array.from(
+            { length: MAX_POINTERS },
+            () => new THREE.Vector3()
+          ),
+        },
+        uPointerCount: { value: 0 },
+        uMode: { value: 0 },
+        uAudio: { value: new THREE.Vector4() },
+        // Start times far in the past, so no ring shows until one is fired
+        uShockwaves: {
+          value: Array.from(
+            { length: MAX_SHOCKWAVES },
+            () => new THREE.Vector4(0, 0, 0, -1e9)
+          ),
+        },
+        uRadius: { value: this.settings.interactionRadius },
+        uStrength: { value: this.settings.interactionStrength },
+        uColor: { value: this.settings.currentColor },
+        uColorMix: { value: 0 },
+        uSize: { value: this.settings.particleSize },
+        uOpacity: { value: 0.8 },
+        uTime: { value: 0 },
+        uProgress: { value: 1 },
+        uStagger: { value: this.transition.stagger },
+        uEase: { value: createEaseTexture(this.settings.morphEase) },
+        uTransition: { value: 0 },
+        uAxis: { value: new THREE.Vector3() },
+        uNoiseScale: { value: 0 },
+        uSpread: { value: 0 },
+        uFocus: { value: 0 },
+        uAperture: { value: 0 },
+        uMaxBlur: { value: 0 },
+        uColorMode: { value: COLOR_MODES.indexOf(this.settings.colorMode) },
+        uBounds: { value: new THREE.Vector4(0, 0, 0, 1) },
+        uSizeVariance: { value: 0 },
+        uAttenuation: { value: 0 },
+        uSoftness: { value: 0 },
+        uSprite: { value: this.sprite },
+        uUseSprite: { value: !!this.sprite },
+        uShading: { value: 0 },
+        uLightDir: { value: new THREE.Vector3(0, 1, 0) },
+        uRim: { value: 0 },
+      },
+      defines: {
+        EASE_SAMPLES: `${EASE_SAMPLES}.0`,
+        MAX_POINTERS,
+        MAX_SHOCKWAVES,
+        SHOCKWAVE_LIFE: SHOCKWAVE_LIFE.toFixed(1),
+        SHOCKWAVE_SPEED: SHOCKWAVE_SPEED.toFixed(1),
+        ATTENUATION_DISTANCE: ATTENUATION_DISTANCE.toFixed(1),
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    });
+
+    this.particles = new THREE.Points(geometry, material);
+    this.scene.add(this.particles);
+    this.configureQuality();
+    this.applyDrawRange();
+  }
+
+  private createGeometry(
+    count: number,
+    previous?: ParticleSnapshot
+  ): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(count * 3);
+    const randoms = new Float32Array(count);
+    const sizes = new Float32Array(count);
+    const normals = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3).fill(1);
+    const prevCount = previous ? previous.randoms.length : 0;
+    // One stream per seed, so particle i keeps its value at any count
+    const randomRng = createRng(this.settings.seed, "aRandom");
+    const sizeRng = createRng(this.settings.seed, "aSize");
+    const scatterRng = createRng(this.settings.seed, "scatter");
+
+    for (let i = 0; i < count; i++) {
+      randoms[i] = randomRng();
+      sizes[i] = 0.25 + sizeRng() * 1.5;
+      if (previous && prevCount > 0) {
+        // Continue from the existing cloud; extra particles reuse existing ones
+        const j = i % prevCount;
+        for (let a = 0; a < 3; a++) {
+          positions[i * 3 + a] = previous.positions[j * 3 + a];
+          normals[i * 3 + a] = previous.normals[j * 3 + a];
+          colors[i * 3 + a] = previous.colors[j * 3 + a];
+        }
+      } else {
+        // Random initial positions
+        positions[i * 3] = (scatterRng() - 0.5) * 500;
+        positions[i * 3 + 1] = (scatterRng() - 0.5) * 500;
+        positions[i * 3 + 2] = (scatterRng() - 0.5) * 500;
+      }
+    }
+
+    // Start and target are equal until a morph begins
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute(
+      "aStart",
+      new THREE.BufferAttribute(positions.slice(), 3)
+    );
+    geometry.setAttribute("aRandom", new THREE.BufferAttribute(randoms, 1));
+    geometry.setAttribute("aSize", new THREE.BufferAttribute(sizes, 1));
+    // Scattered particles have no surface yet, so face outwards
+    if (!previous || prevCount === 0) normals.set(radialNormals(positions));
+    geometry.setAttribute("aNormal", new THREE.BufferAttribute(normals, 3));
+    geometry.setAttribute(
+      "aNormalStart",
+      new THREE.BufferAttribute(normals.slice(), 3)
+    );
+    geometry.setAttribute("aColor", new THREE.BufferAttribute(colors, 3));
+    geometry.setAttribute(
+      "aColorStart",
+      new THREE.BufferAttribute(colors.slice(), 3)
+    );
+
+    // Draw order, shuffled for reduced draw counts (see applyDrawRange)
+    const order = new Uint32Array(count);
+    const orderRng = createRng(this.settings.seed, "drawOrder");
+    for (let i = 0; i < count; i++) order[i] = i;
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(orderRng() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    geometry.setIndex(new THREE.BufferAttribute(order, 1));
+    return geometry;
+  }
+
+  /**
+   * Where the particles are right now. Morphs run in the vertex shader, so
+   * mid-morph positions are recomputed on the CPU from the same inputs.
+   */
+  private snapshot(): ParticleSnapshot | null {
+    const uniforms = this.getUniforms();
+    if (!this.particles || !uniforms) return null;
+
+    const attributes = this.particles.geometry.attributes;
+    const array = (name: string) => attributes[name].array as Float32Array;
+    const state: MorphState = {
+      start: array("aStart"),
+      target: array("position"),
+      randoms: array("aRandom"),
+      progress: uniforms.uProgress.value,
+      ease: uniforms.uEase.value,
+      transition: this.transition,
+    };
+
+    return {
+      positions: interpolatePositions(state),
+      normals: interpolateNormals(
+        state,
+        array("aNormalStart"),
+        array("aNormal")
+      ),
+      colors: interpolateColors(state, array("aColorStart"), array("aColor")),
+      randoms: state.randoms,
+    };
+  }
+
+  private getUniforms(): { [uniform: string]: THREE.IUniform } | null {
+    if (
+      !this.particles ||
+      !(this.particles.material instanceof THREE.ShaderMaterial)
+    )
+      return null;
+    return this.particles.material.uniforms;
+  }
+
+  private async loadModels() {
+    const total = this.modelList.length;
+    const percents = this.modelList.map(() => 0);
+    let loaded = 0;
+    const report = () =>
+      this.events.emit("progress", {
+        loaded,
+        total,
+        percent: percents.reduce((sum, p) => sum + p, 0) / Math.max(total, 1),
+      });
+
+    const results = await Promise.all(
+      this.modelList.map(async ({ key, url }, i) => {
+        const points = await this.loadModel(
+          key,
+          url,
+          this.settings.particleCount,
+          (percent) => {
+            percents[i] = percent;
+            report();
+          }
+        );
+        percents[i] = 100;
+        loaded++;
+        report();
+        return points;
+      })
+    );
+
+    // In list order, which is the auto-morph order
+    this.modelList.forEach(({ key, url, label }, i) => {
+      const points = results[i];
+      if (!points) {
+        this.reportError(new Error(`Could not load model ${url}`));
+        return;
+      }
+      this.models[key] = points;
+      this.modelSources[key] = (count) => this.loadModel(key, url, count);
+      this.uiManager?.addShapeButton(key, label ?? key);
+    });
+  }
+
+  /**
+   * Samples a model for `key`, keeping its colors aside like those of
+   * images, for the "shape" color mode, and its normals for lit shading.
+   */
+  private async loadModel(
+    key: string,
+    path: string,
+    count: number,
+    onProgress?: (percent: number) => void
+  ): Promise<Float32Array | null> {
+    const sampled = await this.modelLoader.load(path, count, onProgress);
+    return this.keepSampled(key, sampled);
+  }
+
+  private keepSampled(
+    key: string,
+    sampled: SampledPoints | null
+  ): Float32Array | null {
+    if (!sampled) return null;
+    if (sampled.colors) this.modelColors[key] = sampled.colors;
+    else delete this.modelColors[key];
+    if (sampled.normals) this.modelNormals[key] = sampled.normals;
+    else delete this.modelNormals[key];
+    return sampled.positions;
+  }
+
+  public async setParticleCount(count: number) {
+    if (!this.particles || count === this.settings.particleCount) return;
+    this.settings.particleCount = count;
+    await this.rebuildParticles();
+  }
+
+  /** Re-places every particle and sample from a new seed. */
+  public async setSeed(seed: number) {
+    if (!this.particles || seed === this.settings.seed) return;
+    this.settings.seed = seed;
+    this.modelLoader.setSeed(seed);
+    this.imageGenerator.setSeed(seed);
+    this.transitionRng = createRng(seed, "transitions");
+    this.saveState();
+    await this.rebuildParticles();
+  }
+
+  /**
+   * Resamples every shape and rebuilds the particle buffers for the current
+   * count and seed, continuing from where the particles are.
+   */
+  private async rebuildParticles() {
+    if (!this.particles) return;
+    const { particleCount: count, seed } = this.settings;
+
+    // Resample every model (sources are cached)
+    const keys = Object.keys(this.modelSources);
+    const resampled = await Promise.all(
+      keys.map((key) => this.modelSources[key](count))
+    );
+    // A newer request may have arrived while sampling
+    if (count !== this.settings.particleCount || seed !== this.settings.seed) {
+      return;
+    }
+    keys.forEach((key, i) => {
+      const points = resampled[i];
+      // Skip shapes that were removed while sampling
+      if (points && key in this.modelSources) this.models[key] = points;
+    });
+
+    const uniforms = this.getUniforms();
+    const snapshot = this.snapshot();
+    if (!uniforms || !snapshot) return;
+    gsap.killTweensOf(uniforms.uProgress);
+
+    const oldGeometry = this.particles.geometry;
+    const geometry = this.createGeometry(count, snapshot);
+    this.particles.geometry = geometry;
+    oldGeometry.dispose();
+    this.applyDrawRange();
+    uniforms.uProgress.value = 1;
+
+    if (this.activeMorph) {
+      // Pick the running morph back up from where the particles are now
+      this.startMorph(this.activeMorph);
+    } else {
+      // Same shape, only resampled, so no transition is needed
+      const target = this.getShapePositions(this.currentShape);
+      if (target) {
+        const normals = this.getShapeNormals(this.currentShape, target);
+        this.setAttribute(geometry, "position", target);
+        this.setAttribute(geometry, "aStart", target);
+        this.setAttribute(geometry, "aNormal", normals);
+        this.setAttribute(geometry, "aNormalStart", normals);
+      }
+      const colors = this.modelColors[this.currentShape];
+      if (colors) {
+        this.setAttribute(geometry, "aColor", colors);
+        this.setAttribute(geometry, "aColorStart", colors);
+      }
+    }
+  }
+
+  public async addModelFromFile(file: File) {
+    if (file.type.startsWith("image/")) return this.addImageFromFile(file);
+
+    const key = `custom-${++this.customModelCount}`;
+    const points = this.keepSampled(
+      key,
+      await this.modelLoader.loadFile(file, key, this.settings.particleCount)
+    );
+    const label = file.name.replace(/\.[^.]+$/, "") || key;
+    if (await this.registerUserShape(key, label, points)) this.showShape(key);
+  }
+
+  public async addTextShape(
+    text: string,
+    options: TextShapeOptions = DEFAULT_TEXT_OPTIONS
+  ) {
+    if (await this.createTextShape(text, options)) {
+      this.showShape(`text:${text}`);
+    }
+  }
+
+  private async createTextShape(
+    text: string,
+    options: TextShapeOptions = DEFAULT_TEXT_OPTIONS
+  ): Promise<boolean> {
+    const key = `text:${text}`;
+    const points = this.keepSampled(
+      key,
+      await this.textGenerator.generate(
+        text,
+        key,
+        this.settings.particleCount,
+        options
+      )
+    );
+    return this.registerUserShape(key, text.replace(/\s+/g, " "), points);
+  }
+
+  public async addImageFromFile(
+    file: File,
+    options: ImageShapeOptions = DEFAULT_IMAGE_OPTIONS
+  ) {
+    const key = `image-${++this.customModelCount}`;
+    const shape = await this.imageGenerator.generate(
+      file,
+      key,
+      this.settings.particleCount,
+      options
+    );
+    if (!shape) return;
+
+    // Colors and normals are resampled together with the positions
+    const label = file.name.replace(/\.[^.]+$/, "") || key;
+    const registered = await this.registerUserShape(
+      key,
+      label,
+      this.keepSampled(key, shape),
+      async (count) =>
+        this.keepSampled(key, this.imageGenerator.sample(key, count))
+    );
+    if (registered) this.showShape(key);
+  }
+
+  private async registerUserShape(
+    key: string,
+    label: string,
+    points: Float32Array | null,
+    source: (count: number) => Promise<Float32Array | null> = (count) =>
+      this.loadModel(key, key, count)
+  ): Promise<boolean> {
+    if (!points) return false;
+    if (points.length !== this.settings.particleCount * 3) {
+      // Particle count changed while generating
+      points = await source(this.settings.particleCount);
+      if (!points) return false;
+    }
+    this.models[key] = points;
+    this.modelSources[key] = source;
+    this.userShapes.add(key);
+
+    this.uiManager?.addShapeButton(key, label, true);
+    return true;
+  }
+
+  /** Morphs to a shape the user just added or changed, cutting in if busy. */
+  private showShape(shape: string) {
+    this.morphTo(shape, { policy: "interrupt" }).catch((error) =>
+      this.reportUnlessSuperseded(error)
+    );
+  }
+
+  public removeModel(shape: string) {
+    if (!this.userShapes.has(shape)) return;
+
+    delete this.models[shape];
+    delete this.modelColors[shape];
+    delete this.modelNormals[shape];
+    delete this.modelSources[shape];
+    this.userShapes.delete(shape);
+    this.modelLoader.evict(shape);
+    this.imageGenerator.evict(shape);
+    this.uiManager?.removeShapeButton(shape);
+
+    this.morphQueue = this.morphQueue.filter((request) => {
+      if (request.shape !== shape) return true;
+      request.reject(new MorphSupersededError(shape));
+      return false;
+    });
+
+    if (this.currentShape === shape || this.targetShape === shape) {
+      const fallback = Object.keys(this.models)[0];
+      if (fallback) {
+        this.showShape(fallback);
+      }
+    }
+  }
+
+  /**
+   * Morphs to `shape`, starting from wherever the particles currently are.
+   * If a morph is already running, `policy` decides whether this one cuts in,
+   * waits its turn or is dropped. Resolves once the particles arrive; rejects
+   * with `MorphSupersededError` if another morph takes over first.
+   */
+  public morphTo(shape: string, options: MorphOptions = {}): Promise<void> {
+    const provider = shapeRegistry.get(shape);
+    const policy = provider?.interrupts
+      ? "interrupt"
+      : options.policy ?? this.settings.morphPolicy;
+
+    return new Promise((resolve, reject) => {
+      const request: MorphRequest = {
+        shape,
+        matching: options.matching ?? this.settings.morphMatching,
+        duration: options.duration,
+        ease: options.ease,
+        camera: options.camera,
+        transition: this.resolveTransition(options.transition),
+        resolve,
+        reject,
+      };
+
+      if (this.activeMorph) {
+        if (policy === "ignore") {
+          reject(new MorphSupersededError(shape));
+          return;
+        }
+        if (policy === "queue") {
+          this.morphQueue.push(request);
+          return;
+        }
+        this.supersedeMorphs();
+      }
+      this.startMorph(request);
+    });
+  }
+
+  private startMorph(request: MorphRequest) {
+    if (!this.particles) return;
+    const { shape } = request;
+    this.activeMorph = request;
+    this.targetShape = shape;
+
+    const targetPositions = this.getShapePositions(shape);
+
+    if (!targetPositions) {
+      // Text targets are generated on demand, e.g. morphTo("text:HELLO")
+      if (shape.startsWith("text:") && !this.models[shape]) {
+        this.createTextShape(shape.slice(5))
+          .then((created) => {
+            // Still the active request, unless superseded while generating
+            if (this.activeMorph !== request) return;
+            if (created) {
+              this.startMorph(request);
+            } else {
+              this.finishMorph(request);
+              request.reject(new Error(`Could not create ${shape}`));
+            }
+          })
+          .catch((error) => {
+            // Superseded requests have no caller left to hear of it
+            if (this.activeMorph !== request) return this.reportError(error);
+            this.finishMorph(request);
+            request.reject(error);
+          });
+      } else {
+        this.finishMorph(request);
+        request.reject(
+          new Error(
+            shapeRegistry.get(shape)
+              ? `Could not generate ${shape}`
+              : `Unknown shape: ${shape}`
+          )
+        );
+      }
+      return;
+    }
+
+    const morphId = ++this.morphId;
+    const geometry = this.particles.geometry;
+    const source = this.snapshot();
+    if (!source) {
+      this.finishMorph(request);
+      request.reject(new Error(`Could not start the morph to ${shape}`));
+      return;
+    }
+    const duration =
+      request.duration ??
+      this.settings.morphDuration / this.settings.animationSpeed;
+
+    this.correspondence
+      .solve(source.positions, targetPositions, request.matching)
+      .then((perm) => {
+        // A newer morph, or a rebuilt geometry, took over while matching
+        if (morphId !== this.morphId || !this.particles) return;
+        if (this.particles.geometry !== geometry) return;
+        const uniforms = this.getUniforms();
+        const current = this.snapshot();
+        if (!uniforms || !current) return;
+
+        // The only upload of the morph: where particles are and where they go
+        const colors = this.modelColors[shape];
+        this.setAttribute(geometry, "aStart", current.positions);
+        this.setAttribute(
+          geometry,
+          "position",
+          applyCorrespondence(targetPositions, perm)
+        );
+        this.setAttribute(geometry, "aColorStart", current.colors);
+        this.setAttribute(
+          geometry,
+          "aColor",
+          colors ? applyCorrespondence(colors, perm) : current.colors
+        );
+        this.setAttribute(geometry, "aNormalStart", current.normals);
+        this.setAttribute(
+          geometry,
+          "aNormal",
+          applyCorrespondence(
+            this.getShapeNormals(shape, targetPositions),
+            perm
+          )
+        );
+
+        gsap.killTweensOf(uniforms.uProgress);
+        updateEaseTexture(
+          uniforms.uEase.value,
+          request.ease ?? this.settings.morphEase
+        );
+        this.uploadTransition(request.transition);
+        uniforms.uProgress.value = 0;
+        this.tweenColorMix(this.showsShapeColors(shape), duration);
+        if (request.camera) {
+          this.cameraManager
+            .moveTo(request.camera, duration)
+            .catch((error) => this.reportError(error));
+        }
+        this.events.emit("morphStart", { shape, duration });
+
+        // Easing and per-particle delays are applied in the vertex shader
+        gsap.to(uniforms.uProgress, {
+          duration,
+          value: 1,
+          ease: "none",
+          onComplete: () => {
+            this.currentShape = shape;
+            this.uiManager?.updateActiveShape(shape);
+            this.saveState();
+            this.events.emit("morphEnd", { shape });
+            this.finishMorph(request);
+            request.resolve();
+          },
+        });
+        // Matching is async, so a step scrubbed to while the sequence is
+        // paused only gets its tweens now; they wait for play like the rest
+        if (request === this.stepMorph && !this.sequencer.isPlaying) {
+          this.setMorphPaused(true);
+        }
+      })
+      .catch((error) => {
+        // A newer morph took over while matching, so no caller is left
+        if (morphId !== this.morphId) return this.reportError(error);
+        this.finishMorph(request);
+        request.reject(error);
+      });
+  }
+
+  /** Fills in a morph's transition from the morph settings. */
+  private resolveTransition(
+    transition: TransitionStyle | Partial<Transition> = {}
+  ): Transition {
+    const options =
+      typeof transition === "string" ? { style: transition } : transition;
+    return {
+      style: this.settings.morphTransition,
+      stagger: this.settings.morphStagger,
+      axis: this.settings.morphAxis,
+      noiseScale: this.settings.morphNoiseScale,
+      spread: this.settings.morphSpread,
+      ...options,
+    };
+  }
+
+  private uploadTransition(transition: Transition) {
+    const uniforms = this.getUniforms();
+    if (!uniforms) return;
+    this.transition = transition;
+    uniforms.uTransition.value = TRANSITION_STYLES.indexOf(transition.style);
+    uniforms.uStagger.value = transition.stagger;
+    uniforms.uAxis.value.set(
+      transition.axis === "x" ? 1 : 0,
+      transition.axis === "y" ? 1 : 0,
+      transition.axis === "z" ? 1 : 0
+    );
+    uniforms.uNoiseScale.value = transition.noiseScale;
+    uniforms.uSpread.value = transition.spread;
+  }
+
+  /** Transition for an automatic morph: a random style if shuffling. */
+  private autoTransition(): TransitionStyle | undefined {
+    if (!this.settings.autoMorphShuffle) return undefined;
+    const index = Math.floor(this.transitionRng() * TRANSITION_STYLES.length);
+    return TRANSITION_STYLES[index];
+  }
+
+  /** Clears the finished morph and starts the next queued one, if any. */
+  private finishMorph(request: MorphRequest) {
+    if (this.activeMorph !== request) return;
+    this.activeMorph = null;
+    const next = this.morphQueue.shift();
+    if (next) this.startMorph(next);
+  }
+
+  /** Stops the running morph where it is and rejects it and the queue. */
+  private supersedeMorphs() {
+    this.morphId++;
+    const uniforms = this.getUniforms();
+    if (uniforms) gsap.killTweensOf(uniforms.uProgress);
+
+    const superseded = [
+      ...(this.activeMorph ? [this.activeMorph] : []),
+      ...this.morphQueue,
+    ];
+    this.activeMorph = null;
+    this.morphQueue = [];
+    superseded.forEach((request) =>
+      request.reject(new MorphSupersededError(request.shape))
+    );
+  }
+
+  /**
+   * Loads a sequence from a URL or a local file and starts playing it.
+   * Resolves to false if it could not be loaded.
+   */
+  public async loadSequence(source: string | File): Promise<boolean> {
+    try {
+      const text =
+        typeof source === "string"
+          ? await fetch(source).then((response) => {
+              if (!response.ok) throw new Error(`HTTP ${response.status}`);
+              return response.text();
+            })
+          : await source.text();
+      const sequence = parseSequence(JSON.parse(text), {
+        duration: this.settings.morphDuration,
+        ease: this.settings.morphEase,
+        hold: this.settings.autoMorphDuration / 1000,
+      });
+      this.sequencer.load(sequence);
+      this.sequencer.play();
+      return true;
+    } catch (error) {
+      const name = typeof source === "string" ? source : source.name;
+      this.reportError(
+        new Error(`Could not load sequence ${name}: ${String(error)}`)
+      );
+      this.uiManager?.showSequenceError(
+        error instanceof Error ? error.message : String(error)
+      );
+      return false;
+    }
+  }
+
+  private playStep(step: SequenceStep, duration: number) {
+    if (step.color) this.setColor(step.color);
+    if (step.rotationSpeed !== undefined) {
+      this.settings.rotationSpeed = step.rotationSpeed;
+    }
+    if (step.interaction !== undefined) {
+      this.settings.interaction = step.interaction;
+    }
+    this.morphTo(step.shape, {
+      policy: "interrupt",
+      duration,
+      ease: step.ease,
+      camera: step.camera,
+      transition: step.transition,
+    }).catch((error) => this.reportUnlessSuperseded(error));
+    this.stepMorph = this.activeMorph;
+  }
+
+  private setMorphPaused(paused: boolean) {
+    const uniforms = this.getUniforms();
+    if (!uniforms) return;
+    [uniforms.uProgress, uniforms.uColorMix, uniforms.uColor.value].forEach(
+      (target) => gsap.getTweensOf(target).forEach((t) => t.paused(paused))
+    );
+  }
+
+  private setAttribute(
+    geometry: THREE.BufferGeometry,
+    name: string,
+    values: Float32Array
+  ) {
+    const attribute = geometry.attributes[name];
+    (attribute.array as Float32Array).set(values);
+    attribute.needsUpdate = true;
+    // Pointer raycasts test the target shape, so its bounds must follow
+    if (name === "position") geometry.boundingSphere = null;
+  }
+
+  private isKnownShape(shape: string): boolean {
+    return (
+      shape in this.models ||
+      !!shapeRegistry.get(shape) ||
+      shape.startsWith("text:")
+    );
+  }
+
+  /** Looks up a loaded model, or generates a procedural shape. */
+  private getShapePositions(shape: string): Float32Array | undefined {
+    const provider = shapeRegistry.get(shape);
+    if (!provider) return this.models[shape];
+    try {
+      const { particleCount, seed } = this.settings;
+      const positions = provider.generate(
+        particleCount,
+        createRng(seed, `${shape}:${particleCount}`)
+      );
+      this.uiManager?.showShapeError(null);
+      return positions;
+    } catch (error) {
+      // e.g. a typo in a parametric expression, also shown next to it
+      const message = error instanceof Error ? error.message : String(error);
+      this.reportError(new Error(`Could not generate ${shape}: ${message}`));
+      this.uiManager?.showShapeError(message);
+      return undefined;
+    }
+  }
+
+  /** Sampled normals of a shape, or radial ones to go with `positions`. */
+  private getShapeNormals(shape: string, positions: Float32Array) {
+    const normals = this.modelNormals[shape];
+    return normals?.length === positions.length
+      ? normals
+      : radialNormals(positions);
+  }
+
+  /**
+   * Blends from the single `uColor` to per-particle colors (or back when the
+   * target has none) over the course of a morph.
+   */
+  private tweenColorMix(toParticleColors: boolean, duration: number) {
+    const uniforms = this.getUniforms();
+    if (!uniforms) return;
+    gsap.killTweensOf(uniforms.uColorMix);
+    gsap.to(uniforms.uColorMix, {
+      duration,
+      value: toParticleColors ? 1 : 0,
+      ease: "expo.inOut",
+    });
+  }
+
+  /** Whether particles take on the colors of `shape`. */
+  private showsShapeColors(shape: string): boolean {
+    return this.settings.colorMode === "shape" && !!this.modelColors[shape];
+  }
+
+  /**
+   * Switches the color mode. Shape colors fade in and out; every mode builds
+   * on `uColor`, so `setColor` tweens the colors of any of them.
+   */
+  private applyColorMode() {
+    const uniforms = this.getUniforms();
+    if (!uniforms) return;
+    uniforms.uColorMode.value = COLOR_MODES.indexOf(this.settings.colorMode);
+    const mix = this.showsShapeColors(this.targetShape) ? 1 : 0;
+    if (uniforms.uColorMix.value !== mix) {
+      this.tweenColorMix(mix === 1, 0.6);
+    }
+  }
+
+  /**
+   * Uses an image for every particle instead of the round disc, tinted by
+   * the particle's color; null goes back to the disc.
+   */
+  public async setSprite(url: string | null) {
+    const texture = url ? await new THREE.TextureLoader().loadAsync(url) : null;
+    if (this.disposed) {
+      texture?.dispose();
+      return;
+    }
+    this.sprite?.dispose();
+    this.sprite = texture;
+    const uniforms = this.getUniforms();
+    if (uniforms) {
+      uniforms.uSprite.value = texture;
+      uniforms.uUseSprite.value = !!texture;
+    }
+  }
+
+  public setColor(colorHex: string) {
+    if (!this.particles) return;
+    const color = new THREE.Color(colorHex);
+    if (
+      this.particles &&
+      this.particles.material instanceof THREE.ShaderMaterial
+    ) {
+      gsap.to(this.particles.material.uniforms.uColor.value, {
+        duration: 1,
+        r: color.r,
+        g: color.g,
+        b: color.b,
+        ease: "power2.out",
+      });
+    }
+    this.settings.currentColor = color;
+    this.saveState();
+  }
+
+  /** A copy of the current settings. */
+  public getSettings(): ParticleSettings {
+    return {
+      ...this.settings,
+      currentColor: this.settings.currentColor.clone(),
+    };
+  }
+
+  /**
+   * Changes any settings at runtime; the rest keep their values. Resolves
+   * once a new particle count or seed is in place.
+   */
+  public setSettings(settings: Partial<ParticleSettings>): Promise<void> {
+    return this.applyState({ settings });
+  }
+
+  /**
+   * The particles where they are now, mid-morph included, or the points of
+   * a loaded shape. Colors are included when particles have their own.
+   */
+  public getPointCloud(options: PointCloudOptions = {}): PointCloud | null {
+    const { shape } = options;
+    if (shape !== undefined) {
+      const positions = this.models[shape];
+      if (!positions) return null;
+      const colors = this.modelColors[shape];
+      return { positions: positions.slice(), colors: colors?.slice() };
+    }
+
+    const uniforms = this.getUniforms();
+    const snapshot = this.snapshot();
+    if (!this.particles || !uniforms || !snapshot) return null;
+    const { positions } = snapshot;
+    if (options.applyRotation) {
+      this.particles.updateMatrixWorld();
+      const point = new THREE.Vector3();
+      for (let i = 0; i < positions.length; i += 3) {
+        point.fromArray(positions, i);
+        point.applyMatrix4(this.particles.matrixWorld).toArray(positions, i);
+      }
+    }
+
+    // Shown colors, as the shaders mix them in: the color mode's, blended
+    // towards per-particle colors by uColorMix
+    const mix: number = uniforms.uColorMix.value;
+    const base: THREE.Color = uniforms.uColor.value;
+    const geometry = this.particles.geometry;
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    const shaded = shadeColors(
+      this.settings.colorMode,
+      snapshot.positions,
+      base,
+      geometry.boundingSphere!
+    );
+    if (mix <= 0 && !shaded) return { positions };
+    const colors = snapshot.colors;
+    const rgb = base.toArray();
+    for (let i = 0; i < colors.length; i++) {
+      const from = shaded ? shaded[i] : rgb[i % 3];
+      colors[i] = from + (colors[i] - from) * mix;
+    }
+    return { positions, colors };
+  }
+
+  /** Encodes `getPointCloud(options)` as a PLY, XYZ or JSON file. */
+  public exportPointCloud(
+    format: PointCloudFormat,
+    options: PointCloudOptions = {}
+  ): Blob | null {
+    const cloud = this.getPointCloud(options);
+    return cloud ? encodePointCloud(cloud, format) : null;
+  }
+
+  private saveState() {
+    if (this.persist) this.stateManager.save(this.settings, this.currentShape);
+  }
+
+  /** Shows a preset, imported file, shared link or new settings. */
+  private async applyState(state: SavedState) {
+    const { particleCount, seed, currentColor, ...settings } = state.settings;
+    Object.assign(this.settings, settings);
+    this.configureQuality();
+    // One rebuild after the other, and both before the shape is shown
+    if (particleCount) await this.setParticleCount(particleCount);
+    if (seed !== undefined) await this.setSeed(seed);
+    if (currentColor) this.setColor(`#${currentColor.getHexString()}`);
+    const uniforms = this.getUniforms();
+    if (uniforms) {
+      uniforms.uSize.value = this.settings.particleSize;
+      uniforms.uRadius.value = this.settings.interactionRadius;
+      uniforms.uStrength.value = this.settings.interactionStrength;
+    }
+    this.applyColorMode();
+    this.uiManager?.syncControls();
+
+    if (state.shape && this.isKnownShape(state.shape)) {
+      this.showShape(state.shape);
+    }
+    this.saveState();
+  }
+
+  private handlePresetEvent(update: PresetUpdate) {
+    try {
+      switch (update.type) {
+        case "presetSave":
+          this.stateManager.savePreset(
+            update.value,
+            this.settings,
+            this.currentShape
+          );
+          this.uiManager?.updatePresets(
+            this.stateManager.listPresets(),
+            update.value
+          );
+          break;
+        case "presetLoad": {
+          const state = this.stateManager.loadPreset(update.value);
+          if (state) {
+            this.applyState(state).catch((error) => this.reportError(error));
+          }
+          break;
+        }
+        case "presetDelete":
+          this.stateManager.deletePreset(update.value);
+          this.uiManager?.updatePresets(this.stateManager.listPresets());
+          break;
+        case "stateExport":
+          this.stateManager.exportFile(
+            this.settings,
+            this.currentShape,
+            update.value || "particle-morpher"
+          );
+          break;
+        case "stateImport": {
+          const file = update.value;
+          this.stateManager
+            .importFile(file)
+            .then(async (state) => {
+              await this.applyState(state);
+              // Keep imported files around as presets
+              const name = file.name.replace(/\.[^.]+$/, "");
+              this.stateManager.savePreset(
+                name,
+                this.settings,
+                this.currentShape
+              );
+              this.uiManager?.updatePresets(
+                this.stateManager.listPresets(),
+                name
+              );
+            })
+            .catch((error) => this.reportError(error));
+          break;
+        }
+        case "copyLink":
+          navigator.clipboard
+            .writeText(
+              this.stateManager.shareUrl(this.settings, this.currentShape)
+            )
+            .catch((error) => this.reportError(error));
+          break;
+      }
+    } catch (error) {
+      this.reportError(error);
+    }
+  }
+
+  private setupEvents() {
+    this.resizeObserver.observe(this.container);
+
+    // A shared link pasted into this tab
+    if (this.persist) {
+      window.addEventListener(
+        "hashchange",
+        () => {
+          const state = this.stateManager.readHash();
+          if (state) {
+            this.applyState(state).catch((error) => this.reportError(error));
+          }
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+
+    // Setting updates from UI Manager
+    this.uiEvents.addEventListener("setting-update", (e) => {
+      const update = (e as CustomEvent<SettingUpdate>).detail;
+      if (
+        !this.particles ||
+        !(this.particles.material instanceof THREE.ShaderMaterial)
+      )
+        return;
+
+      const uniforms = this.particles.material.uniforms;
+      switch (update.type) {
+        case "quality":
+          this.configureQuality();
+          break;
+        case "size":
+          uniforms.uSize.value = update.value;
+          break;
+        case "colorMode":
+          this.applyColorMode();
+          break;
+        case "sprite": {
+          const url = update.value ? URL.createObjectURL(update.value) : null;
+          this.setSprite(url)
+            .catch((error) => this.reportError(error))
+            .finally(() => url && URL.revokeObjectURL(url));
+          break;
+        }
+        case "radius":
+          uniforms.uRadius.value = update.value;
+          break;
+        case "strength":
+          uniforms.uStrength.value = update.value;
+          break;
+        case "particleCount":
+          this.setParticleCount(update.value).catch((error) =>
+            this.reportError(error)
+          );
+          break;
+        case "seed":
+          this.setSeed(update.value).catch((error) => this.reportError(error));
+          break;
+        case "addModel":
+          this.addModelFromFile(update.value).catch((error) =>
+            this.reportError(error)
+          );
+          break;
+        case "shapeParams":
+          // Regenerate the procedural shape on screen with its new parameters
+          if (this.targetShape === update.value) {
+            this.showShape(update.value);
+          }
+          break;
+        case "addImage":
+          this.addImageFromFile(update.value.file, update.value.options).catch(
+            (error) => this.reportError(error)
+          );
+          break;
+        case "addText":
+          this.addTextShape(update.value.text, update.value.options).catch(
+            (error) => this.reportError(error)
+          );
+          break;
+        case "removeModel":
+          this.removeModel(update.value);
+          break;
+        case "autoMorphReset":
+          this.lastMorphTime = this.clockTime;
+          break;
+        case "sequenceLoad":
+          this.loadSequence(update.value).catch((error) =>
+            this.reportError(error)
+          );
+          break;
+        case "sequencePlay":
+          if (update.value) this.sequencer.play();
+          else this.sequencer.pause();
+          break;
+        case "sequenceLoop":
+          this.sequencer.setLoop(update.value);
+          break;
+        case "sequenceSeek":
+          this.sequencer.seek(update.value);
+          break;
+        case "export":
+          this.runExport(update.value.options, update.value.start).catch(
+            (error) => this.reportError(error)
+          );
+          break;
+        case "exportCancel":
+          this.exporter.cancel();
+          break;
+        case "pointCloudExport": {
+          const { format, ...options } = update.value;
+          const blob = this.exportPointCloud(format, options);
+          const name = options.shape ?? "particles";
+          if (!blob) {
+            this.reportError(new Error(`Nothing to export for ${name}`));
+            break;
+          }
+          const extension = POINT_CLOUD_EXTENSIONS[format];
+          downloadBlob(blob, `${name.replace(/[^\w-]+/g, "-")}.${extension}`);
+          break;
+        }
+        case "audioFile":
+          this.startAudio(
+            () => this.audio.playFile(update.value),
+            update.value.name
+          );
+          break;
+        case "audioMic":
+          this.startAudio(() => this.audio.useMicrophone(), "Microphone");
+          break;
+        case "audioStop":
+          this.audio.stop();
+          this.uiManager?.updateAudioStatus("Off", false);
+          break;
+        case "cameraReset":
+          this.cameraManager.resetView();
+          break;
+        case "cameraGo":
+          this.cameraManager
+            .moveTo(update.value)
+            .catch((error) => this.reportError(error));
+          break;
+        case "cameraSave":
+          this.cameraManager.saveKeyframe(update.value);
+          this.uiManager?.updateCameraKeyframes(
+            this.cameraManager.listKeyframes(),
+            update.value
+          );
+          break;
+        case "cameraDelete":
+          this.cameraManager.deleteKeyframe(update.value);
+          this.uiManager?.updateCameraKeyframes(
+            this.cameraManager.listKeyframes()
+          );
+          break;
+        case "settingsChanged":
+          this.saveState();
+          break;
+        case "presetSave":
+        case "presetLoad":
+        case "presetDelete":
+        case "stateExport":
+        case "stateImport":
+        case "copyLink":
+          this.handlePresetEvent(update);
+          break;
+      }
+    });
+
+    this.handleResize();
+  }
+
+  private handleResize() {
+    // The exporter renders at its own size until it is done
+    if (this.exporter.isRunning || this.disposed) return;
+    const { width, height } = this.getSize();
+
+    this.camera.aspect = width / height;
+    this.cameraManager.handleResize();
+    this.camera.updateProjectionMatrix();
+
+    this.renderer.setPixelRatio(this.pixelRatio());
+    this.renderer.setSize(width, height, false);
+  }
+
+  /** The device's pixel ratio, capped by the quality level. */
+  private pixelRatio(): number {
+    return Math.min(window.devicePixelRatio, this.governor.level.pixelRatio);
+  }
+
+  private applyQuality(level: QualityLevel) {
+    this.uiManager?.updateQuality(level.name);
+    // Exports render at full quality and restore it when done
+    if (this.exporter.isRunning) return;
+    this.handleResize();
+    this.applyDrawRange();
+  }
+
+  private configureQuality() {
+    const { qualityBest, qualityWorst, adaptiveQuality } = this.settings;
+    this.governor.configure(qualityBest, qualityWorst, adaptiveQuality);
+  }
+
+  /**
+   * Draws a share of the particles. The index is shuffled, so any leading
+   * run of it is an even sample of the whole cloud.
+   */
+  private applyDrawRange() {
+    const geometry = this.particles?.geometry;
+    if (!geometry?.index) return;
+    const fraction = this.exporter.isRunning
+      ? 1
+      : this.governor.level.drawFraction;
+    geometry.setDrawRange(0, Math.ceil(geometry.index.count * fraction));
+  }
+
+  /**
+   * Stops rendering and releases everything this instance holds: listeners,
+   * tweens, the matching worker, audio and GPU resources. Morphs still
+   * pending reject with `MorphSupersededError`.
+   */
+  public dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    cancelAnimationFrame(this.frameId);
+    this.exporter.cancel();
+    this.sequencer.pause();
+    this.supersedeMorphs();
+
+    this.listeners.abort();
+    this.resizeObserver.disconnect();
+    this.pointerTracker.dispose();
+    this.cameraManager.dispose();
+    this.uiManager?.dispose();
+    this.postProcessing.dispose();
+    this.audio.dispose();
+    this.correspondence.dispose();
+
+    const uniforms = this.getUniforms();
+    if (uniforms) {
+      gsap.killTweensOf([
+        uniforms.uProgress,
+        uniforms.uColorMix,
+        uniforms.uColor.value,
+      ]);
+      uniforms.uEase.value.dispose();
+      this.sprite?.dispose();
+    }
+    if (this.particles) {
+      this.scene.remove(this.particles);
+      this.particles.geometry.dispose();
+      (this.particles.material as THREE.Material).dispose();
+      this.particles = null;
+    }
+    this.renderer.dispose();
+    // Browsers cap live WebGL contexts, so give this one back right away
+    this.renderer.forceContextLoss();
+    if (this.ownsCanvas) this.canvas.remove();
+    this.events.clear();
+  }
+
+  private animate() {
+    this.frameId = requestAnimationFrame(() => this.animate());
+    // The exporter renders frames itself, on its own clock
+    if (this.exporter.isRunning) return;
+
+    this.updateStats();
+    this.renderFrame(performance.now());
+  }
+
+  /** Advances everything time-based to `time` (ms) and renders. */
+  private renderFrame(time: number) {
+    const delta = this.clockTime ? Math.min(time - this.clockTime, 100) : 0;
+    this.clockTime = time;
+
+    if (this.settings.autoRotate && this.particles) {
+      // 0.3 rad/s, i.e. 0.005 rad per frame at 60fps
+      this.particles.rotation.y +=
+        0.0003 *
+        delta *
+        this.settings.rotationSpeed *
+        this.settings.animationSpeed;
+    }
+
+    const uniforms = this.getUniforms();
+    if (uniforms) {
+      // Stray pointer movement would spoil an export
+      const pointers =
+        this.settings.interaction &&
+        this.settings.interactionMode !== "shockwave" &&
+        !this.exporter.isRunning
+          ? this.pointerTracker.active
+          : [];
+      pointers.forEach((pointer, i) =>
+        this.locatePointer(pointer, uniforms.uPointers.value[i])
+      );
+      uniforms.uPointerCount.value = pointers.length;
+      uniforms.uMode.value = INTERACTION_MODES.indexOf(
+        this.settings.interactionMode
+      );
+      uniforms.uTime.value = time;
+    }
+
+    this.sequencer.update(time);
+    this.applyAudio(time);
+    this.handleAutoMorph();
+    this.cameraManager.update();
+    // Exports always get the effects, like they get full quality
+    const effects = this.exporter.isRunning || this.governor.level.effects;
+    this.applyParticleStyle();
+    this.applyDepthOfField(effects);
+    this.postProcessing.render(this.settings, effects);
+  }
+
+  private applyParticleStyle() {
+    const uniforms = this.getUniforms();
+    if (!uniforms || !this.particles) return;
+    uniforms.uSizeVariance.value = this.settings.sizeVariance;
+    uniforms.uAttenuation.value = this.settings.sizeAttenuation ? 1 : 0;
+    uniforms.uSoftness.value = this.settings.particleSoftness;
+
+    // Lit particles are solid, so they blend normally and hide what is
+    // behind them; unlit ones glow and add up
+    const lit = this.settings.shading === "lit";
+    uniforms.uShading.value = SHADING_MODES.indexOf(this.settings.shading);
+    uniforms.uRim.value = this.settings.rimStrength;
+    const azimuth = THREE.MathUtils.degToRad(this.settings.lightAzimuth);
+    const elevation = THREE.MathUtils.degToRad(this.settings.lightElevation);
+    uniforms.uLightDir.value.set(
+      Math.cos(elevation) * Math.sin(azimuth),
+      Math.sin(elevation),
+      Math.cos(elevation) * Math.cos(azimuth)
+    );
+    const material = this.particles.material as THREE.ShaderMaterial;
+    material.blending = lit ? THREE.NormalBlending : THREE.AdditiveBlending;
+    material.depthWrite = lit;
+
+    // Gradients span the target shape; its bounds reset when it changes
+    const geometry = this.particles.geometry;
+    const mode = this.settings.colorMode;
+    if (mode === "height" || mode === "distance") {
+      if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+      const { center, radius } = geometry.boundingSphere!;
+      uniforms.uBounds.value.set(
+        center.x,
+        center.y,
+        center.z,
+        Math.max(radius, 0.001)
+      );
+    }
+  }
+
+  /** Focuses on the model's center, wherever the camera is. */
+  private applyDepthOfField(enabled: boolean) {
+    const uniforms = this.getUniforms();
+    if (!uniforms || !this.particles) return;
+    const on = enabled && this.settings.depthOfField;
+    uniforms.uAperture.value = on ? this.settings.dofAperture : 0;
+    uniforms.uMaxBlur.value = this.settings.dofMaxBlur;
+    if (!on) return;
+    this.camera.updateMatrixWorld();
+    const center = this.particles
+      .getWorldPosition(new THREE.Vector3())
+      .applyMatrix4(this.camera.matrixWorldInverse);
+    uniforms.uFocus.value = -center.z;
+  }
+
+  /**
+   * Puts `target` where the pointer's ray meets the cloud. Finding the depth
+   * tests every particle, so it is only redone when the pointer moves; in
+   * between the pointer keeps its depth as the camera or the model turn.
+   */
+  private locatePointer(pointer: TrackedPointer, target: THREE.Vector3) {
+    this.raycaster.setFromCamera(pointer.ndc, this.camera);
+    if (pointer.moved || pointer.depth < 0) {
+      pointer.depth = this.pointerDepth();
+      pointer.moved = false;
+    }
+    this.raycaster.ray.at(pointer.depth, target);
+  }
+
+  /** Distance along the raycaster's ray to the nearest particle. */
+  private pointerDepth(): number {
+    const ray = this.raycaster.ray;
+    if (!this.particles) return 0;
+    // Raycasting a large cloud is costly, so low quality levels skip it
+    const hit = this.governor.level.effects
+      ? this.raycaster.intersectObject(this.particles)[0]
+      : undefined;
+    if (hit) return hit.distance;
+
+    // Off the cloud: a plane through its center, facing the camera
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      this.camera.getWorldDirection(new THREE.Vector3()),
+      this.particles.position
+    );
+    return (
+      ray.distanceToPlane(plane) ??
+      ray.origin.distanceTo(this.particles.position)
+    );
+  }
+
+  private fireShockwave(pointer: TrackedPointer) {
+    const uniforms = this.getUniforms();
+    if (
+      !uniforms ||
+      !this.settings.interaction ||
+      this.settings.interactionMode !== "shockwave" ||
+      this.exporter.isRunning
+    ) {
+      return;
+    }
+    const shockwaves: THREE.Vector4[] = uniforms.uShockwaves.value;
+    const oldest = shockwaves.reduce((a, b) => (b.w < a.w ? b : a));
+    const center = new THREE.Vector3();
+    pointer.moved = true;
+    this.locatePointer(pointer, center);
+    oldest.set(center.x, center.y, center.z, this.clockTime);
+  }
+
+  private startAudio(start: () => Promise<void>, label: string) {
+    this.uiManager?.updateAudioStatus("Starting...", false);
+    start()
+      .then(() => this.uiManager?.updateAudioStatus(label, true))
+      .catch((error) => {
+        this.audio.stop();
+        this.reportError(error);
+        this.uiManager?.updateAudioStatus(
+          error instanceof Error ? error.message : "Could not start audio",
+          false
+        );
+      });
+  }
+
+  /** Feeds the mapped audio bands to the shader, and morphs on beats. */
+  private applyAudio(time: number) {
+    const uniforms = this.getUniforms();
+    if (!uniforms) return;
+    const audio = this.audio.update(time);
+    const level = (band: AudioBand) =>
+      audio && band !== "off"
+        ? audio.levels[band] * this.settings.audioSensitivity
+        : 0;
+
+    uniforms.uAudio.value.set(
+      level(this.settings.audioSize),
+      level(this.settings.audioStrength),
+      level(this.settings.audioDisplacement),
+      level(this.settings.audioColor)
+    );
+
+    const beatBand = this.settings.audioBeat;
+    if (
+      audio &&
+      beatBand !== "off" &&
+      audio.beats[beatBand] &&
+      !this.activeMorph &&
+      !this.sequencer.isPlaying
+    ) {
+      const next = this.nextShape();
+      if (next) {
+        this.morphTo(next, { transition: this.autoTransition() }).catch(
+          (error) => this.reportUnlessSuperseded(error)
+        );
+        // Beats stand in for the auto-morph timer rather than adding to it
+        this.lastMorphTime = this.clockTime;
+      }
+    }
+  }
+
+  private handleAutoMorph() {
+    if (!this.settings.autoMorph || this.activeMorph) return;
+    // A playing sequence decides what comes next
+    if (this.sequencer.isPlaying) return;
+
+    const now = this.clockTime;
+    if (now - this.lastMorphTime > this.settings.autoMorphDuration) {
+      const next = this.nextShape();
+      if (next) {
+        this.morphTo(next, { transition: this.autoTransition() }).catch(
+          (error) => this.reportUnlessSuperseded(error)
+        );
+        this.lastMorphTime = now;
+      }
+    }
+  }
+
+  /** The shape after the current one in the auto-morph cycle. */
+  private nextShape(): string | undefined {
+    const morphKeys = Object.keys(this.models);
+    const currentIndex = morphKeys.indexOf(this.currentShape);
+    return morphKeys[(currentIndex + 1) % morphKeys.length];
+  }
+
+  /**
+   * Records a video or PNG frames. `start` picks what happens on the first
+   * frame: nothing, a morph to the next shape, or the sequence from the top.
+   */
+  private async runExport(options: ExportOptions, start: ExportStart) {
+    if (this.exporter.isRunning) return;
+
+    if (start === "next") {
+      const next = this.nextShape();
+      if (next)
+        this.morphTo(next, { policy: "interrupt" }).catch((error) =>
+          this.reportUnlessSuperseded(error)
+        );
+    } else if (start === "sequence") {
+      this.sequencer.restart();
+    }
+
+    try {
+      const blob = await this.exporter.export(options, (frame, total) =>
+        this.uiManager?.updateExportProgress(frame, total)
+      );
+      const extension = options.format === "webm" ? "webm" : "zip";
+      downloadBlob(
+        blob,
+        `particles-${options.width}x${options.height}.${extension}`
+      );
+      this.uiManager?.updateExportProgress(0, 0, "Done");
+    } catch (error) {
+      if (!(error instanceof ExportCancelledError)) this.reportError(error);
+      this.uiManager?.updateExportProgress(
+        0,
+        0,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private beginExport(width: number, height: number) {
+    const uniforms = this.getUniforms();
+    // Points are sized in pixels; scale them to look as they do on screen
+    const screenHeight = this.getSize().height * this.renderer.getPixelRatio();
+    if (uniforms) {
+      uniforms.uSize.value =
+        (this.settings.particleSize * height) / screenHeight;
+    }
+
+    this.camera.aspect = width / height;
+    this.cameraManager.handleResize();
+    this.camera.updateProjectionMatrix();
+    this.renderer.setPixelRatio(1);
+    this.applyDrawRange();
+    // Leave the canvas' CSS size alone, so the page layout does not change
+    this.renderer.setSize(width, height, false);
+  }
+
+  private endExport() {
+    if (this.disposed) return;
+    const uniforms = this.getUniforms();
+    if (uniforms) uniforms.uSize.value = this.settings.particleSize;
+    this.handleResize();
+    this.applyDrawRange();
+    this.clockTime = performance.now();
+    this.lastMorphTime = this.clockTime;
+    // The export's frames are not the screen's
+    this.lastTime = 0;
+    this.governor.reset();
+  }
+
+  private updateStats() {
+    const now = performance.now();
+    const delta = this.lastTime ? now - this.lastTime : 0;
+    this.lastTime = now;
+    // A long gap is a hidden tab or a blocked thread, not the frame rate
+    if (delta > 1000) this.governor.reset();
+    else if (delta > 0) this.governor.update(delta, now);
+
+    if (now - this.lastStatsTime < STATS_INTERVAL) return;
+    this.lastStatsTime = now;
+    const stats = this.governor.stats;
+    this.uiManager?.updateFps(Math.round(stats.fps));
+    if (this.settings.showStats && this.uiManager && this.particles) {
+      const geometry = this.particles.geometry;
+      const level = this.governor.level;
+      this.uiManager.updatePerformance({
+        ...stats,
+        drawCalls: this.renderer.info.render.calls,
+        particles: this.settings.particleCount,
+        drawnParticles: Math.min(
+          geometry.drawRange.count,
+          this.settings.particleCount
+        ),
+        quality: level.name,
+        pixelRatio: this.renderer.getPixelRatio(),
+        gpuMemory: this.estimateGpuMemory(),
+      });
+    }
+  }
+
+  /**
+   * Bytes of the particle buffers, the ease texture and the framebuffer
+   * (color and depth, times the MSAA samples, plus the resolved canvas).
+   */
+  private estimateGpuMemory(): number {
+    let bytes = EASE_SAMPLES * 4;
+    const geometry = this.particles?.geometry;
+    if (geometry) {
+      Object.values(geometry.attributes).forEach(
+        (attribute) => (bytes += attribute.array.byteLength)
+      );
+      if (geometry.index) bytes += geometry.index.array.byteLength;
+    }
+    const buffer = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+    const samples = this.renderer.getContext().getContextAttributes()?.antialias
+      ? 4
+      : 1;
+    bytes += buffer.x * buffer.y * (8 * samples + 4);
+    return bytes;
+  }
+}
@@ -0,0 +1,51 @@
+// Library entry, for embedding the morpher in other pages and frameworks
+export {
+  ParticleMorpher,
+  MorphSupersededError,
+  DEFAULT_MODELS,
+} from "./ParticleMorpher";
+export type {
+  ParticleMorpherOptions,
+  ParticleMorpherEvents,
+  ModelDefinition,
+  MorphOptions,
+  PointCloudOptions,
+} from "./ParticleMorpher";
+export {
+  DEFAULT_SETTINGS,
+  MORPH_POLICIES,
+  INTERACTION_MODES,
+  SHADING_MODES,
+} from "./managers/UIManager";
+export type {
+  ParticleSettings,
+  MorphPolicy,
+  InteractionMode,
+  ShadingMode,
+} from "./managers/UIManager";
+export { shapeRegistry, defineShape, fitToSize } from "./shapes";
+export type { ShapeProvider, ShapeDefinition, Rng } from "./shapes";
+export { parseSequence, SequenceError } from "./sequence/Sequence";
+export type { Sequence, SequenceStep } from "./sequence/Sequence";
+export { MATCHING_METHODS } from "./utils/correspondence";
+export type { MatchingMethod } from "./utils/correspondence";
+export { MORPH_EASES, TRANSITION_STYLES, MORPH_AXES } from "./utils/gpuMorph";
+export type { Transition, TransitionStyle, MorphAxis } from "./utils/gpuMorph";
+export { AUDIO_BANDS } from "./utils/AudioAnalyzer";
+export type { AudioBand } from "./utils/AudioAnalyzer";
+export {
+  encodePointCloud,
+  POINT_CLOUD_FORMATS,
+} from "./utils/pointCloudExport";
+export type { PointCloud, PointCloudFormat } from "./utils/pointCloudExport";
+export {
+  encodePointBundle,
+  decodePointBundle,
+  BundleError,
+  BUNDLE_VERSION,
+} from "./utils/pointBundle";
+export type { PointBundle } from "./utils/pointBundle";
+export { QUALITY_LEVELS, QUALITY_NAMES } from "./utils/QualityGovernor";
+export type { QualityLevel, QualityName } from "./utils/QualityGovernor";
+export { COLOR_MODES } from "./utils/colorModes";
+export type { ColorMode } from "./utils/colorModes";
@@ -0,0 +1,202 @@
+import * as THREE from "three";
+import { gsap } from "gsap";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+
+type Vec3 = [number, number, number];
+
+export interface CameraKeyframe {
+  position: Vec3;
+  target: Vec3;
+}
+
+const KEYFRAMES_KEY = "particle-morpher:cameras";
+
+/**
+ * Orbit, pan and zoom with damping, the auto-fit framing the scene starts
+ * with, and named keyframes the camera can be tweened to. Keyframes are
+ * kept in this browser only: presets, state files and share links leave
+ * them out, so a sequence step's `camera` needs them saved where it plays.
+ */
+export class CameraManager {
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  // Until the user moves the camera, it keeps refitting to the window
+  private userMoved: boolean = false;
+  private tweening: boolean = false;
+  private listeners: AbortController = new AbortController();
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+    this.camera = camera;
+    this.controls = new OrbitControls(camera, domElement);
+    this.controls.enableDamping = true;
+    this.controls.dampingFactor = 0.08;
+    this.controls.minDistance = 5;
+    this.controls.maxDistance = 300;
+    this.controls.addEventListener("start", () => {
+      this.userMoved = true;
+      this.stopTween();
+    });
+
+    // Arrows pan and shift + arrows orbit (OrbitControls), +/- zoom. Keys
+    // only apply while the canvas has focus, not while typing in the panel.
+    domElement.tabIndex = 0;
+    this.controls.listenToKeyEvents(domElement);
+    domElement.addEventListener(
+      "keydown",
+      (e) => {
+        if (e.key === "+" || e.key === "=") this.zoom(0.9);
+        if (e.key === "-" || e.key === "_") this.zoom(1 / 0.9);
+      },
+      { signal: this.listeners.signal }
+    );
+
+    this.fit();
+  }
+
+  public dispose() {
+    this.stopTween();
+    this.controls.dispose();
+    this.listeners.abort();
+  }
+
+  /** Call once per frame, so damping keeps easing the camera. */
+  public update() {
+    this.controls.update();
+  }
+
+  /** Keeps the auto-fit framing after an aspect change, unless moved. */
+  public handleResize() {
+    if (!this.userMoved && !this.tweening) this.fit();
+  }
+
+  /** Jumps to the framing that fits the shapes in the current aspect. */
+  public fit() {
+    const pose = this.defaultPose();
+    this.camera.position.fromArray(pose.position);
+    this.controls.target.fromArray(pose.target);
+    this.camera.lookAt(this.controls.target);
+  }
+
+  /** Tweens back to the auto-fit framing. */
+  public resetView(duration: number = 1): Promise<void> {
+    return this.tweenTo(this.defaultPose(), duration).then(() => {
+      this.userMoved = false;
+    });
+  }
+
+  public listKeyframes(): string[] {
+    return Object.keys(this.readKeyframes()).sort();
+  }
+
+  /** Saves the current view under `name`. */
+  public saveKeyframe(name: string) {
+    const keyframes = this.readKeyframes();
+    keyframes[name] = {
+      position: this.camera.position.toArray() as Vec3,
+      target: this.controls.target.toArray() as Vec3,
+    };
+    localStorage.setItem(KEYFRAMES_KEY, JSON.stringify(keyframes));
+  }
+
+  public deleteKeyframe(name: string) {
+    const keyframes = this.readKeyframes();
+    delete keyframes[name];
+    localStorage.setItem(KEYFRAMES_KEY, JSON.stringify(keyframes));
+  }
+
+  /** Tweens to a saved keyframe; rejects if there is none by that name. */
+  public moveTo(
+    name: string,
+    duration: number = 1.5,
+    ease: string = "power2.inOut"
+  ): Promise<void> {
+    const keyframe = this.readKeyframes()[name];
+    if (!keyframe) {
+      return Promise.reject(new Error(`Unknown camera keyframe: ${name}`));
+    }
+    this.userMoved = true;
+    return this.tweenTo(keyframe, duration, ease);
+  }
+
+  private tweenTo(
+    keyframe: CameraKeyframe,
+    duration: number,
+    ease: string = "power2.inOut"
+  ): Promise<void> {
+    this.stopTween();
+    this.tweening = true;
+    const position = new THREE.Vector3().fromArray(keyframe.position);
+    const target = new THREE.Vector3().fromArray(keyframe.target);
+
+    return new Promise((resolve) => {
+      const done = () => {
+        this.tweening = false;
+        resolve();
+      };
+      gsap.to(this.camera.position, {
+        duration,
+        ease,
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        onComplete: done,
+        // Interrupted by the user or another move
+        onInterrupt: done,
+      });
+      gsap.to(this.controls.target, {
+        duration,
+        ease,
+        x: target.x,
+        y: target.y,
+        z: target.z,
+      });
+    });
+  }
+
+  private stopTween() {
+    gsap.killTweensOf(this.camera.position);
+    gsap.killTweensOf(this.controls.target);
+  }
+
+  private zoom(factor: number) {
+    const offset = this.camera.position.clone().sub(this.controls.target);
+    const distance = THREE.MathUtils.clamp(
+      offset.length() * factor,
+      this.controls.minDistance,
+      this.controls.maxDistance
+    );
+    this.camera.position
+      .copy(this.controls.target)
+      .add(offset.setLength(distance));
+    this.userMoved = true;
+  }
+
+  /** Fits the 20 unit shapes, with some margin, whatever the aspect. */
+  private defaultPose(): CameraKeyframe {
+    const aspect = this.camera.aspect;
+    const fov = this.camera.fov;
+    const targetDim = 25;
+    const fovRad = (fov * Math.PI) / 180;
+    let dist;
+
+    if (aspect >= 1) {
+      dist = targetDim / (2 * Math.tan(fovRad / 2));
+    } else {
+      dist = targetDim / (aspect * 2 * Math.tan(fovRad / 2));
+    }
+
+    const finalDist = Math.max(dist, 40);
+    return { position: [0, 10, finalDist], target: [0, 0, 0] };
+  }
+
+  private readKeyframes(): { [name: string]: CameraKeyframe } {
+    try {
+      const keyframes = JSON.parse(localStorage.getItem(KEYFRAMES_KEY) ?? "{}");
+      return typeof keyframes === "object" && keyframes !== null
+        ? keyframes
+        : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import * as THREE from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { AfterimagePass } from "three/examples/jsm/postprocessing/AfterimagePass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { CopyShader } from "three/examples/jsm/shaders/CopyShader.js";
+import { ParticleSettings } from "./UIManager";
+
+interface Passes {
+  composer: EffectComposer;
+  bloom: UnrealBloomPass;
+  trails: AfterimagePass;
+}
+
+/**
+ * Bloom and motion trails as screen passes. Without either, frames are
+ * rendered straight to the canvas as before, and no render targets exist.
+ *
+ * The particle shader writes its colors unconverted, so the pipeline stays
+ * that way: it ends in a plain copy instead of an OutputPass, and the
+ * background is encoded up front, as the renderer would on the canvas.
+ */
+export class PostProcessingManager {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private passes: Passes | null = null;
+  private size = new THREE.Vector2();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+  }
+
+  /** Renders a frame; `allowed` is false while quality is cut back. */
+  public render(settings: ParticleSettings, allowed: boolean) {
+    const bloom = allowed && settings.bloom;
+    const trails = allowed && settings.trails;
+    if (!bloom && !trails) {
+      this.renderer.render(this.scene, this.camera);
+      return;
+    }
+
+    const passes = this.getPasses();
+    passes.bloom.enabled = bloom;
+    passes.bloom.strength = settings.bloomStrength;
+    passes.bloom.radius = settings.bloomRadius;
+    passes.bloom.threshold = settings.bloomThreshold;
+    passes.trails.enabled = trails;
+    passes.trails.uniforms.damp.value = settings.trailLength;
+
+    // Follows resizes, pixel ratio changes and exports alike
+    const size = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+    if (!size.equals(this.size)) {
+      this.size.copy(size);
+      passes.composer.setPixelRatio(1);
+      passes.composer.setSize(size.x, size.y);
+    }
+
+    const background = this.scene.background;
+    if (background instanceof THREE.Color) {
+      this.scene.background = background.clone().convertLinearToSRGB();
+    }
+    // Count the draw calls of every pass, not just the last one
+    const info = this.renderer.info;
+    info.reset();
+    info.autoReset = false;
+    passes.composer.render();
+    info.autoReset = true;
+    this.scene.background = background;
+  }
+
+  public dispose() {
+    if (!this.passes) return;
+    this.passes.bloom.dispose();
+    this.passes.trails.dispose();
+    this.passes.composer.dispose();
+    this.passes = null;
+  }
+
+  // Created on first use, so scenes without effects allocate nothing
+  private getPasses(): Passes {
+    if (!this.passes) {
+      const target = new THREE.WebGLRenderTarget(1, 1, {
+        type: THREE.HalfFloatType,
+        // Antialiasing, like the canvas has
+        samples: 4,
+      });
+      const composer = new EffectComposer(this.renderer, target);
+      const bloom = new UnrealBloomPass(new THREE.Vector2(1, 1), 1, 0.4, 0);
+      const trails = new AfterimagePass();
+      composer.addPass(new RenderPass(this.scene, this.camera));
+      composer.addPass(trails);
+      composer.addPass(bloom);
+      composer.addPass(new ShaderPass(CopyShader));
+      this.passes = { composer, bloom, trails };
+      this.size.set(0, 0);
+    }
+    return this.passes;
+  }
+}
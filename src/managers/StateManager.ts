@@ -0,0 +1,132 @@
+import { ParticleSettings } from "./UIManager";
+import {
+  SavedState,
+  serializeState,
+  parseState,
+  encodeState,
+  decodeState,
+} from "../utils/settingsState";
+import { downloadBlob } from "../utils/download";
+
+const STATE_KEY = "particle-morpher:state";
+const PRESETS_KEY = "particle-morpher:presets";
+const HASH_PREFIX = "#state=";
+
+/**
+ * Keeps the settings and current shape in the URL hash and localStorage,
+ * and stores named presets. Everything goes through `parseState`, so bad
+ * or hand-edited values never reach the scene. Storage can be missing or
+ * full (sandboxed frames, private modes); that goes to `onError` and the
+ * page carries on without it.
+ */
+export class StateManager {
+  private saveTimer: number | undefined;
+  private lastHash: string = "";
+  private onError: (error: unknown) => void;
+
+  constructor(onError: (error: unknown) => void) {
+    this.onError = onError;
+  }
+
+  /** State from a shared link, or else from the last visit. */
+  public restore(): SavedState | null {
+    const fromHash = this.readHash();
+    if (fromHash) return fromHash;
+
+    let stored: string | null;
+    try {
+      stored = localStorage.getItem(STATE_KEY);
+    } catch (error) {
+      this.onError(error);
+      return null;
+    }
+    if (!stored) return null;
+    try {
+      return parseState(JSON.parse(stored));
+    } catch (error) {
+      console.warn("Ignoring saved state:", error);
+      return null;
+    }
+  }
+
+  /** State from the URL hash, or null if there is none or it is invalid. */
+  public readHash(): SavedState | null {
+    const hash = window.location.hash;
+    if (!hash.startsWith(HASH_PREFIX) || hash === this.lastHash) return null;
+    try {
+      return decodeState(hash.slice(HASH_PREFIX.length));
+    } catch (error) {
+      console.warn("Ignoring state in URL:", error);
+      return null;
+    }
+  }
+
+  /** Writes the hash and localStorage, batched while sliders are dragged. */
+  public save(settings: ParticleSettings, shape: string) {
+    window.clearTimeout(this.saveTimer);
+    this.saveTimer = window.setTimeout(() => {
+      const state = serializeState(settings, shape);
+      this.lastHash = HASH_PREFIX + encodeState(state);
+      // replaceState keeps every tweak out of the back-button history
+      history.replaceState(null, "", this.lastHash);
+      this.write(STATE_KEY, state);
+    }, 300);
+  }
+
+  /** A link to the page that restores exactly this look. */
+  public shareUrl(settings: ParticleSettings, shape: string): string {
+    const url = new URL(window.location.href);
+    url.hash = HASH_PREFIX + encodeState(serializeState(settings, shape));
+    return url.toString();
+  }
+
+  public listPresets(): string[] {
+    return Object.keys(this.readPresets()).sort();
+  }
+
+  public savePreset(name: string, settings: ParticleSettings, shape: string) {
+    const presets = this.readPresets();
+    presets[name] = serializeState(settings, shape);
+    this.write(PRESETS_KEY, presets);
+  }
+
+  public loadPreset(name: string): SavedState | null {
+    const preset = this.readPresets()[name];
+    return preset ? parseState(preset) : null;
+  }
+
+  public deletePreset(name: string) {
+    const presets = this.readPresets();
+    delete presets[name];
+    this.write(PRESETS_KEY, presets);
+  }
+
+  public exportFile(settings: ParticleSettings, shape: string, name: string) {
+    const json = JSON.stringify(serializeState(settings, shape), null, 2);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `${name}.json`
+    );
+  }
+
+  public async importFile(file: File): Promise<SavedState> {
+    return parseState(JSON.parse(await file.text()));
+  }
+
+  private write(key: string, value: object) {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  private readPresets(): { [name: string]: object } {
+    try {
+      const presets = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? "{}");
+      return typeof presets === "object" && presets !== null ? presets : {};
+    } catch {
+      return {};
+    }
+  }
+}
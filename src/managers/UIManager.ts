@@ -1,4 +1,63 @@
 import * as THREE from "three";
+import { SUPPORTED_EXTENSIONS } from "../utils/ModelLoader";
+import { shapeRegistry, ShapeProvider } from "../shapes";
+import { MatchingMethod, MATCHING_METHODS } from "../utils/correspondence";
+import {
+  MORPH_EASES,
+  MORPH_AXES,
+  MorphAxis,
+  TRANSITION_STYLES,
+  TransitionStyle,
+} from "../utils/gpuMorph";
+import {
+  TEXT_FONTS,
+  DEFAULT_TEXT_OPTIONS,
+  TextAlign,
+  TextShapeOptions,
+} from "../utils/TextShapeGenerator";
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  ImageShapeOptions,
+  ImageWeighting,
+} from "../utils/ImageShapeGenerator";
+import { SequenceState } from "../sequence/Sequencer";
+import { randomSeed } from "../utils/random";
+import { AudioBand, AUDIO_BANDS } from "../utils/AudioAnalyzer";
+import {
+  PerformanceStats,
+  QualityName,
+  QUALITY_NAMES,
+} from "../utils/QualityGovernor";
+import { ColorMode, COLOR_MODES } from "../utils/colorModes";
+import {
+  ExportOptions,
+  ExportFormat,
+  DEFAULT_EXPORT_OPTIONS,
+} from "../utils/FrameExporter";
+import { PointCloudFormat } from "../utils/pointCloudExport";
+import type { ExportStart } from "../ParticleMorpher";
+
+/** What a new morph request does while another morph is running. */
+export type MorphPolicy = "interrupt" | "queue" | "ignore";
+
+export const MORPH_POLICIES: MorphPolicy[] = ["interrupt", "queue", "ignore"];
+
+/** How pointers act on particles; shockwaves fire on click or tap. */
+export type InteractionMode = "repel" | "attract" | "vortex" | "shockwave";
+
+// Order matches the uMode uniform in the vertex shader
+export const INTERACTION_MODES: InteractionMode[] = [
+  "repel",
+  "attract",
+  "vortex",
+  "shockwave",
+];
+
+/** Glowing, additive particles, or solid ones lit by a directional light. */
+export type ShadingMode = "unlit" | "lit";
+
+// Order matches the uShading uniform in the vertex shader
+export const SHADING_MODES: ShadingMode[] = ["unlit", "lit"];
 
 export interface ParticleSettings {
   particleCount: number;
@@ -11,6 +70,69 @@ export interface ParticleSettings {
   autoMorphDuration: number;
   interactionRadius: number;
   interactionStrength: number;
+  morphMatching: MatchingMethod;
+  morphEase: string;
+  morphStagger: number;
+  morphPolicy: MorphPolicy;
+  morphTransition: TransitionStyle;
+  /** Direction of the "sweep" transition. */
+  morphAxis: MorphAxis;
+  /** Frequency of the curl noise in "curl" and "dissolve" transitions. */
+  morphNoiseScale: number;
+  /** How far "explode", "curl" and "dissolve" paths stray. */
+  morphSpread: number;
+  /** Auto-morphs pick a random transition style each time. */
+  autoMorphShuffle: boolean;
+  colorMode: ColorMode;
+  /** How much particle sizes vary, 0 (all equal) to 1. */
+  sizeVariance: number;
+  /** Shrinks particles with their distance from the camera. */
+  sizeAttenuation: boolean;
+  /** Share of the particle radius that fades out towards the edge. */
+  particleSoftness: number;
+  shading: ShadingMode;
+  /** Direction the light comes from (degrees); 0 is from the front. */
+  lightAzimuth: number;
+  lightElevation: number;
+  /** Brightness of the rim light along silhouettes in lit mode. */
+  rimStrength: number;
+  /** Multiplier of the auto-rotation speed. */
+  rotationSpeed: number;
+  /** Whether the pointer pushes particles around. */
+  interaction: boolean;
+  interactionMode: InteractionMode;
+  // Frequency bands driving size, pointer strength, displacement, color
+  // brightness and morphs on the beat while audio plays
+  audioSize: AudioBand;
+  audioStrength: AudioBand;
+  audioDisplacement: AudioBand;
+  audioColor: AudioBand;
+  audioBeat: AudioBand;
+  audioSensitivity: number;
+  // Screen passes, switched off while quality is cut back
+  bloom: boolean;
+  bloomStrength: number;
+  bloomRadius: number;
+  /** Brightness a pixel needs before it glows. */
+  bloomThreshold: number;
+  trails: boolean;
+  /** Share of the previous frame kept each frame. */
+  trailLength: number;
+  // Depth of field, drawn by the particle shader rather than a screen pass:
+  // each particle grows and fades by its distance from the model's center.
+  // Switched off with the screen passes.
+  depthOfField: boolean;
+  dofAperture: number;
+  /** Cap of the blur, in multiples of the particle size. */
+  dofMaxBlur: number;
+  /** Steps quality between the best and worst levels by frame time. */
+  adaptiveQuality: boolean;
+  qualityBest: QualityName;
+  qualityWorst: QualityName;
+  /** Shows frame times, draw calls and memory next to the FPS counter. */
+  showStats: boolean;
+  /** Drives every random placement, so a seed always gives the same scene. */
+  seed: number;
 }
 
 export const DEFAULT_SETTINGS: ParticleSettings = {
@@ -24,40 +146,571 @@ export const DEFAULT_SETTINGS: ParticleSettings = {
   autoMorphDuration: 5000,
   interactionRadius: 3.0,
   interactionStrength: 10.0,
+  morphMatching: "spatial",
+  morphEase: "expo.inOut",
+  morphStagger: 0.2,
+  morphPolicy: "interrupt",
+  morphTransition: "stagger",
+  morphAxis: "y",
+  morphNoiseScale: 0.15,
+  morphSpread: 12,
+  autoMorphShuffle: false,
+  colorMode: "shape",
+  sizeVariance: 0,
+  sizeAttenuation: false,
+  particleSoftness: 0,
+  shading: "unlit",
+  lightAzimuth: 35,
+  lightElevation: 40,
+  rimStrength: 0.8,
+  rotationSpeed: 1,
+  interaction: true,
+  interactionMode: "repel",
+  audioSize: "bass",
+  audioStrength: "off",
+  audioDisplacement: "bass",
+  audioColor: "treble",
+  audioBeat: "off",
+  audioSensitivity: 1,
+  bloom: false,
+  bloomStrength: 1.2,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.1,
+  trails: false,
+  trailLength: 0.85,
+  depthOfField: false,
+  dofAperture: 0.08,
+  dofMaxBlur: 3,
+  adaptiveQuality: true,
+  qualityBest: "ultra",
+  qualityWorst: "low",
+  showStats: false,
+  seed: 1,
 };
 
+type AudioSettingKey =
+  | "audioSize"
+  | "audioStrength"
+  | "audioDisplacement"
+  | "audioColor"
+  | "audioBeat";
+
+const AUDIO_SELECTS: [string, AudioSettingKey][] = [
+  ["audio-size-select", "audioSize"],
+  ["audio-strength-select", "audioStrength"],
+  ["audio-displacement-select", "audioDisplacement"],
+  ["audio-color-select", "audioColor"],
+  ["audio-beat-select", "audioBeat"],
+];
+
+/**
+ * The detail of a "setting-update" event. Settings the morpher reads every
+ * frame are changed in place and need no event; these are the changes it
+ * has to act on, and the panel's commands.
+ */
+export type SettingUpdate =
+  | { type: "quality" | "colorMode" | "settingsChanged" | "autoMorphReset" }
+  | {
+      type: "size" | "radius" | "strength" | "particleCount" | "seed";
+      value: number;
+    }
+  | { type: "sprite"; value: File | null }
+  | { type: "addModel"; value: File }
+  | { type: "addImage"; value: { file: File; options: ImageShapeOptions } }
+  | { type: "addText"; value: { text: string; options: TextShapeOptions } }
+  | { type: "shapeParams" | "removeModel"; value: string }
+  | { type: "sequenceLoad"; value: File }
+  | { type: "sequencePlay" | "sequenceLoop"; value: boolean }
+  | { type: "sequenceSeek"; value: number }
+  | { type: "export"; value: { options: ExportOptions; start: ExportStart } }
+  | { type: "exportCancel" }
+  | {
+      type: "pointCloudExport";
+      value: {
+        format: PointCloudFormat;
+        shape?: string;
+        applyRotation: boolean;
+      };
+    }
+  | { type: "audioFile"; value: File }
+  | { type: "audioMic" | "audioStop" }
+  | { type: "cameraReset" }
+  | { type: "cameraGo" | "cameraSave" | "cameraDelete"; value: string }
+  | PresetUpdate;
+
+/** The preset and shared state commands among the setting updates. */
+export type PresetUpdate =
+  | { type: "presetSave" | "presetLoad" | "presetDelete"; value: string }
+  | { type: "stateExport"; value: string | undefined }
+  | { type: "stateImport"; value: File }
+  | { type: "copyLink" };
+
+/**
+ * Binds the control panel of the demo page (index.html) to one morpher.
+ * Changes go out as "setting-update" events on `events`, which belongs to
+ * that morpher, so other instances on the page do not pick them up.
+ */
 export class UIManager {
   private settings: ParticleSettings;
   private onMorph: (shape: string) => void;
   private onColorChange: (color: string) => void;
+  private events: EventTarget;
+  // Aborted on dispose, removing every listener the panel added
+  private listeners: AbortController = new AbortController();
+  private scrubbing: boolean = false;
 
   constructor(
     settings: ParticleSettings,
     onMorph: (shape: string) => void,
-    onColorChange: (color: string) => void
+    onColorChange: (color: string) => void,
+    events: EventTarget
   ) {
     this.settings = settings;
     this.onMorph = onMorph;
     this.onColorChange = onColorChange;
+    this.events = events;
+  }
+
+  public dispose() {
+    this.listeners.abort();
+  }
+
+  private dispatch(update: SettingUpdate) {
+    this.events.dispatchEvent(
+      new CustomEvent("setting-update", { detail: update })
+    );
   }
 
   public init() {
     this.setupShapeButtons();
+    this.setupProviders();
+    this.setupModelImport();
+    this.setupTextInput();
     this.setupSliders();
+    this.setupMorphSelects();
+    this.setupEaseSelect();
     this.setupColorButtons();
+    this.setupParticleStyle();
+    this.setupLighting();
     this.setupToggles();
+    this.setupAudioControls();
+    this.setupEffectControls();
+    this.setupDepthOfField();
+    this.setupQualityControls();
+    this.setupSequenceControls();
+    this.setupPresets();
+    this.setupExport();
+    this.setupPointCloudExport();
+    this.setupCameraControls();
+    this.setupChangeTracking();
     this.setupFullscreen();
     this.setupPanels();
+    this.syncControls();
+  }
+
+  /** Updates every control to show the current settings. */
+  public syncControls() {
+    const sliders: [string, number][] = [
+      ["speed-slider", this.settings.animationSpeed],
+      ["particle-size-slider", this.settings.particleSize],
+      ["stagger-slider", this.settings.morphStagger],
+      ["noise-scale-slider", this.settings.morphNoiseScale],
+      ["spread-slider", this.settings.morphSpread],
+      ["size-variance-slider", this.settings.sizeVariance],
+      ["softness-slider", this.settings.particleSoftness],
+      ["light-azimuth-slider", this.settings.lightAzimuth],
+      ["light-elevation-slider", this.settings.lightElevation],
+      ["rim-slider", this.settings.rimStrength],
+      ["particle-count-slider", this.settings.particleCount],
+      ["interaction-radius-slider", this.settings.interactionRadius],
+      ["interaction-strength-slider", this.settings.interactionStrength],
+      ["audio-sensitivity-slider", this.settings.audioSensitivity],
+      ["bloom-strength-slider", this.settings.bloomStrength],
+      ["bloom-radius-slider", this.settings.bloomRadius],
+      ["bloom-threshold-slider", this.settings.bloomThreshold],
+      ["trail-length-slider", this.settings.trailLength],
+      ["dof-aperture-slider", this.settings.dofAperture],
+      ["dof-blur-slider", this.settings.dofMaxBlur],
+    ];
+    sliders.forEach(([id, value]) => {
+      const slider = document.getElementById(id) as HTMLInputElement;
+      if (!slider) return;
+      slider.value = String(value);
+      // Reuse the slider's own handler for its label and uniform updates
+      slider.dispatchEvent(new Event("input"));
+    });
+
+    const seedInput = document.getElementById("seed-input") as HTMLInputElement;
+    if (seedInput) seedInput.value = String(this.settings.seed);
+
+    const selects: [string, string][] = [
+      ["matching-select", this.settings.morphMatching],
+      ["ease-select", this.settings.morphEase],
+      ["policy-select", this.settings.morphPolicy],
+      ["transition-select", this.settings.morphTransition],
+      ["axis-select", this.settings.morphAxis],
+      ["color-mode-select", this.settings.colorMode],
+      ["shading-select", this.settings.shading],
+      ["interaction-mode-select", this.settings.interactionMode],
+      ["quality-best-select", this.settings.qualityBest],
+      ["quality-worst-select", this.settings.qualityWorst],
+      ...AUDIO_SELECTS.map(([id, key]): [string, string] => [
+        id,
+        this.settings[key],
+      ]),
+    ];
+    selects.forEach(([id, value]) => {
+      const select = document.getElementById(id) as HTMLSelectElement;
+      if (select) select.value = value;
+    });
+
+    const checks: [string, boolean][] = [
+      ["auto-rotate", this.settings.autoRotate],
+      ["auto-morph", this.settings.autoMorph],
+      ["auto-morph-shuffle", this.settings.autoMorphShuffle],
+      ["size-attenuation", this.settings.sizeAttenuation],
+      ["bloom-toggle", this.settings.bloom],
+      ["trails-toggle", this.settings.trails],
+      ["dof-toggle", this.settings.depthOfField],
+      ["adaptive-quality", this.settings.adaptiveQuality],
+      ["show-stats", this.settings.showStats],
+    ];
+    checks.forEach(([id, checked]) => {
+      const check = document.getElementById(id) as HTMLInputElement;
+      if (check) check.checked = checked;
+    });
+
+    this.updateTransitionParams();
+    this.updateStatsVisibility();
+
+    const color = `#${this.settings.currentColor.getHexString()}`;
+    document.querySelectorAll(".color-btn").forEach((btn) => {
+      const el = btn as HTMLElement;
+      el.classList.toggle("active", el.dataset.color?.toLowerCase() === color);
+    });
   }
 
   private setupShapeButtons() {
-    const shapes = ["queen", "pawn", "explode"];
-    shapes.forEach((shape) => {
-      const btn = document.getElementById(`btn-${shape}`);
-      if (btn) {
-        btn.addEventListener("click", () => this.onMorph(shape));
+    document.querySelectorAll(".shape-btn").forEach((btn) => {
+      const shape = (btn as HTMLElement).dataset.shape;
+      if (shape) {
+        btn.addEventListener("click", () => this.onMorph(shape), {
+          signal: this.listeners.signal,
+        });
+      }
+    });
+  }
+
+  public addShapeButton(shape: string, label: string, removable = false) {
+    const container = document.getElementById("shape-buttons");
+    if (!container) return;
+
+    this.updateCloudSource(shape, label);
+    const existing = document.getElementById(`btn-${shape}`);
+    if (existing) {
+      const name = existing.querySelector(".shape-name");
+      if (name) name.textContent = label;
+      return;
+    }
+
+    const btn = document.createElement("button");
+    btn.className = "shape-btn";
+    btn.id = `btn-${shape}`;
+    btn.dataset.shape = shape;
+
+    const number = document.createElement("span");
+    number.className = "shape-number";
+    const name = document.createElement("span");
+    name.className = "shape-name";
+    name.textContent = label;
+    btn.append(number, name);
+
+    if (removable) {
+      const remove = document.createElement("span");
+      remove.className = "shape-remove";
+      remove.title = "Remove shape";
+      remove.textContent = "×";
+      remove.addEventListener(
+        "click",
+        (e) => {
+          e.stopPropagation();
+          this.dispatch({ type: "removeModel", value: shape });
+        },
+        { signal: this.listeners.signal }
+      );
+      btn.append(remove);
+    }
+
+    btn.addEventListener("click", () => this.onMorph(shape), {
+      signal: this.listeners.signal,
+    });
+
+    container.append(btn);
+    this.renumberShapeButtons();
+  }
+
+  public removeShapeButton(shape: string) {
+    document.getElementById(`btn-${shape}`)?.remove();
+    this.renumberShapeButtons();
+    this.updateCloudSource(shape, null);
+  }
+
+  /** Adds, relabels or (with a null label) removes a point cloud source. */
+  private updateCloudSource(shape: string, label: string | null) {
+    const select = document.getElementById("cloud-source") as HTMLSelectElement;
+    if (!select) return;
+    let option = Array.from(select.options).find((o) => o.value === shape);
+    if (label === null) {
+      option?.remove();
+      return;
+    }
+    if (!option) {
+      option = document.createElement("option");
+      option.value = shape;
+      select.append(option);
+    }
+    option.textContent = label;
+  }
+
+  private renumberShapeButtons() {
+    document.querySelectorAll(".shape-btn .shape-number").forEach((el, i) => {
+      el.textContent = String(i + 1).padStart(2, "0");
+    });
+  }
+
+  private setupTextInput() {
+    const input = document.getElementById("text-input") as HTMLInputElement;
+    const fontSelect = document.getElementById(
+      "text-font"
+    ) as HTMLSelectElement;
+    const alignSelect = document.getElementById(
+      "text-align"
+    ) as HTMLSelectElement;
+    const depthSlider = document.getElementById(
+      "text-depth-slider"
+    ) as HTMLInputElement;
+    const addBtn = document.getElementById("text-add-btn");
+    if (!input || !addBtn) return;
+
+    if (fontSelect) {
+      Object.keys(TEXT_FONTS).forEach((font) => {
+        const option = document.createElement("option");
+        option.value = font;
+        option.textContent = font.replace("-", " ");
+        fontSelect.append(option);
+      });
+      fontSelect.value = DEFAULT_TEXT_OPTIONS.font;
+    }
+
+    const submit = () => {
+      // "\n" typed into the field starts a new line
+      const text = input.value.replace(/\\n/g, "\n").trim();
+      if (!text) return;
+      const options: TextShapeOptions = {
+        font: fontSelect?.value || DEFAULT_TEXT_OPTIONS.font,
+        align: (alignSelect?.value as TextAlign) || DEFAULT_TEXT_OPTIONS.align,
+        depth: depthSlider
+          ? parseFloat(depthSlider.value)
+          : DEFAULT_TEXT_OPTIONS.depth,
+      };
+      this.dispatch({ type: "addText", value: { text, options } });
+    };
+
+    addBtn.addEventListener("click", submit, { signal: this.listeners.signal });
+    input.addEventListener(
+      "keydown",
+      (e) => {
+        if (e.key === "Enter") submit();
+      },
+      { signal: this.listeners.signal }
+    );
+
+    this.bindSlider("text-depth-slider", "text-depth-value", (val) =>
+      val.toFixed(1)
+    );
+  }
+
+  private setupProviders() {
+    const container = document.getElementById("provider-buttons");
+    if (!container) return;
+
+    shapeRegistry.list().forEach((provider) => {
+      const btn = document.createElement("button");
+      btn.className = "shape-btn provider-btn";
+      btn.id = `btn-${provider.name}`;
+      btn.dataset.shape = provider.name;
+      btn.textContent = provider.label;
+      btn.addEventListener(
+        "click",
+        () => {
+          this.showProviderParams(provider);
+          this.onMorph(provider.name);
+        },
+        { signal: this.listeners.signal }
+      );
+      container.append(btn);
+    });
+  }
+
+  private showProviderParams(provider: ShapeProvider) {
+    const container = document.getElementById("provider-params");
+    if (!container) return;
+    container.replaceChildren();
+
+    const commit = () => {
+      this.dispatch({ type: "shapeParams", value: provider.name });
+    };
+
+    provider.parameters.forEach((param) => {
+      const label = document.createElement("label");
+      label.className = "control-label sub";
+      label.textContent = param.label;
+      const id = `param-${provider.name}-${param.key}`;
+      label.htmlFor = id;
+
+      let input: HTMLInputElement | HTMLSelectElement;
+      if (param.type === "number") {
+        const value = document.createElement("span");
+        value.className = "control-value";
+        value.textContent = String(param.value);
+        label.append(value);
+
+        const slider = document.createElement("input");
+        slider.type = "range";
+        slider.className = "slider";
+        slider.min = String(param.min);
+        slider.max = String(param.max);
+        slider.step = String(param.step);
+        slider.value = String(param.value);
+        slider.addEventListener(
+          "input",
+          () => {
+            param.value = parseFloat(slider.value);
+            value.textContent = slider.value;
+          },
+          { signal: this.listeners.signal }
+        );
+        // Regenerating can be slow, so wait for the slider to be released
+        slider.addEventListener("change", commit, {
+          signal: this.listeners.signal,
+        });
+        input = slider;
+      } else if (param.type === "select") {
+        const select = document.createElement("select");
+        select.className = "select";
+        param.options.forEach((option) => {
+          const el = document.createElement("option");
+          el.value = option;
+          el.textContent = option;
+          select.append(el);
+        });
+        select.value = param.value;
+        select.addEventListener(
+          "change",
+          () => {
+            param.value = select.value;
+            commit();
+          },
+          { signal: this.listeners.signal }
+        );
+        input = select;
+      } else {
+        const text = document.createElement("input");
+        text.type = "text";
+        text.className = "text-input";
+        text.value = param.value;
+        text.spellcheck = false;
+        text.addEventListener(
+          "change",
+          () => {
+            param.value = text.value;
+            commit();
+          },
+          { signal: this.listeners.signal }
+        );
+        input = text;
       }
+
+      input.id = id;
+      const row = document.createElement("div");
+      row.className = "provider-param";
+      row.append(label, input);
+      container.append(row);
     });
+
+    const error = document.createElement("div");
+    error.className = "provider-error";
+    error.id = "provider-error";
+    container.append(error);
+  }
+
+  /** Shows why a procedural shape failed to generate, or clears it. */
+  public showShapeError(message: string | null) {
+    const error = document.getElementById("provider-error");
+    if (error) error.textContent = message ?? "";
+  }
+
+  private setupModelImport() {
+    const weightingSelect = document.getElementById(
+      "image-weighting"
+    ) as HTMLSelectElement;
+
+    const dispatchFile = (file: File) => {
+      if (file.type.startsWith("image/")) {
+        const options: ImageShapeOptions = {
+          ...DEFAULT_IMAGE_OPTIONS,
+          weighting:
+            (weightingSelect?.value as ImageWeighting) ||
+            DEFAULT_IMAGE_OPTIONS.weighting,
+        };
+        this.dispatch({ type: "addImage", value: { file, options } });
+        return;
+      }
+      this.dispatch({ type: "addModel", value: file });
+    };
+
+    const fileInput = document.getElementById(
+      "model-file-input"
+    ) as HTMLInputElement;
+    if (fileInput) {
+      fileInput.accept = [...SUPPORTED_EXTENSIONS, "image/*"].join(",");
+      fileInput.addEventListener(
+        "change",
+        () => {
+          Array.from(fileInput.files || []).forEach(dispatchFile);
+          fileInput.value = "";
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const scene = document.getElementById("scene");
+    if (scene) {
+      scene.addEventListener(
+        "dragover",
+        (e) => {
+          e.preventDefault();
+          scene.classList.add("drag-over");
+        },
+        { signal: this.listeners.signal }
+      );
+      scene.addEventListener(
+        "dragleave",
+        () => {
+          scene.classList.remove("drag-over");
+        },
+        { signal: this.listeners.signal }
+      );
+      scene.addEventListener(
+        "drop",
+        (e) => {
+          e.preventDefault();
+          scene.classList.remove("drag-over");
+          Array.from(e.dataTransfer?.files || []).forEach(dispatchFile);
+        },
+        { signal: this.listeners.signal }
+      );
+    }
   }
 
   public updateActiveShape(shape: string) {
@@ -87,11 +740,35 @@ export class UIManager {
       },
       (val) => {
         // Dispatch custom event or callback if needed for immediate uniform update
-        window.dispatchEvent(
-          new CustomEvent("setting-update", {
-            detail: { type: "size", value: val },
-          })
-        );
+        this.dispatch({ type: "size", value: val });
+      }
+    );
+
+    this.bindSlider("stagger-slider", "stagger-value", (val) => {
+      this.settings.morphStagger = val;
+      return val.toFixed(2);
+    });
+
+    this.bindSlider("noise-scale-slider", "noise-scale-value", (val) => {
+      this.settings.morphNoiseScale = val;
+      return val.toFixed(2);
+    });
+
+    this.bindSlider("spread-slider", "spread-value", (val) => {
+      this.settings.morphSpread = val;
+      return String(Math.round(val));
+    });
+
+    this.setupSeedInput();
+
+    // Rebuilding the particle buffers is expensive, so only commit on release
+    this.bindSlider(
+      "particle-count-slider",
+      "count-value",
+      (val) => `${Math.round(val / 1000)}k`,
+      undefined,
+      (val) => {
+        this.dispatch({ type: "particleCount", value: Math.round(val) });
       }
     );
 
@@ -103,11 +780,7 @@ export class UIManager {
         return val.toFixed(1);
       },
       (val) => {
-        window.dispatchEvent(
-          new CustomEvent("setting-update", {
-            detail: { type: "radius", value: val },
-          })
-        );
+        this.dispatch({ type: "radius", value: val });
       }
     );
 
@@ -119,44 +792,773 @@ export class UIManager {
         return val.toFixed(1);
       },
       (val) => {
-        window.dispatchEvent(
-          new CustomEvent("setting-update", {
-            detail: { type: "strength", value: val },
-          })
-        );
+        this.dispatch({ type: "strength", value: val });
       }
     );
   }
 
+  private setupSeedInput() {
+    const input = document.getElementById("seed-input") as HTMLInputElement;
+    if (!input) return;
+
+    const commit = (seed: number) => {
+      input.value = String(seed);
+      this.dispatch({ type: "seed", value: seed });
+    };
+    input.addEventListener(
+      "change",
+      () => {
+        const seed = parseInt(input.value, 10);
+        if (Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)
+          commit(seed);
+        else input.value = String(this.settings.seed);
+      },
+      { signal: this.listeners.signal }
+    );
+    document
+      .getElementById("seed-shuffle")
+      ?.addEventListener("click", () => commit(randomSeed()), {
+        signal: this.listeners.signal,
+      });
+  }
+
+  private bindCheck(id: string, onChange: (checked: boolean) => void) {
+    const check = document.getElementById(id) as HTMLInputElement;
+    check?.addEventListener("change", () => onChange(check.checked), {
+      signal: this.listeners.signal,
+    });
+  }
+
   private bindSlider(
     id: string,
     valueId: string,
     onInput: (val: number) => string,
-    onUpdate?: (val: number) => void
+    onUpdate?: (val: number) => void,
+    onCommit?: (val: number) => void
   ) {
     const slider = document.getElementById(id) as HTMLInputElement;
     const valueDisplay = document.getElementById(valueId);
     if (slider) {
-      slider.addEventListener("input", (e) => {
-        const val = parseFloat((e.target as HTMLInputElement).value);
-        const display = onInput(val);
-        if (valueDisplay) valueDisplay.textContent = display;
-        if (onUpdate) onUpdate(val);
-      });
+      slider.addEventListener(
+        "input",
+        (e) => {
+          const val = parseFloat((e.target as HTMLInputElement).value);
+          const display = onInput(val);
+          if (valueDisplay) valueDisplay.textContent = display;
+          if (onUpdate) onUpdate(val);
+        },
+        { signal: this.listeners.signal }
+      );
+      if (onCommit) {
+        slider.addEventListener(
+          "change",
+          (e) => {
+            onCommit(parseFloat((e.target as HTMLInputElement).value));
+          },
+          { signal: this.listeners.signal }
+        );
+      }
     }
   }
 
   private setupColorButtons() {
     document.querySelectorAll(".color-btn").forEach((btn) => {
-      btn.addEventListener("click", () => {
-        document
-          .querySelectorAll(".color-btn")
-          .forEach((b) => b.classList.remove("active"));
-        (btn as HTMLElement).classList.add("active");
-        const color = (btn as HTMLElement).dataset.color;
-        if (color) this.onColorChange(color);
+      btn.addEventListener(
+        "click",
+        () => {
+          document
+            .querySelectorAll(".color-btn")
+            .forEach((b) => b.classList.remove("active"));
+          (btn as HTMLElement).classList.add("active");
+          const color = (btn as HTMLElement).dataset.color;
+          if (color) this.onColorChange(color);
+        },
+        { signal: this.listeners.signal }
+      );
+    });
+  }
+
+  private setupParticleStyle() {
+    this.bindSelect(
+      "color-mode-select",
+      COLOR_MODES,
+      (value) => {
+        this.settings.colorMode = value as ColorMode;
+        this.dispatch({ type: "colorMode" });
+      },
+      this.settings.colorMode
+    );
+
+    // Read every frame, like the effects
+    this.bindSlider("size-variance-slider", "size-variance-value", (val) => {
+      this.settings.sizeVariance = val;
+      return val.toFixed(2);
+    });
+    this.bindSlider("softness-slider", "softness-value", (val) => {
+      this.settings.particleSoftness = val;
+      return val.toFixed(2);
+    });
+    this.bindCheck("size-attenuation", (checked) => {
+      this.settings.sizeAttenuation = checked;
+    });
+
+    // Sprites are images, so they stay out of the saved settings
+    const fileInput = document.getElementById(
+      "sprite-file-input"
+    ) as HTMLInputElement;
+    const reset = document.getElementById(
+      "sprite-reset"
+    ) as HTMLButtonElement | null;
+    fileInput?.addEventListener(
+      "change",
+      () => {
+        const file = fileInput.files?.[0];
+        if (file) this.dispatch({ type: "sprite", value: file });
+        if (reset) reset.disabled = !file;
+        fileInput.value = "";
+      },
+      { signal: this.listeners.signal }
+    );
+    reset?.addEventListener(
+      "click",
+      () => {
+        this.dispatch({ type: "sprite", value: null });
+        reset.disabled = true;
+      },
+      { signal: this.listeners.signal }
+    );
+  }
+
+  // Read every frame, like the particle style
+  private setupLighting() {
+    this.bindSelect(
+      "shading-select",
+      SHADING_MODES,
+      (value) => {
+        this.settings.shading = value as ShadingMode;
+      },
+      this.settings.shading
+    );
+    this.bindSlider("light-azimuth-slider", "light-azimuth-value", (val) => {
+      this.settings.lightAzimuth = val;
+      return `${Math.round(val)}°`;
+    });
+    this.bindSlider(
+      "light-elevation-slider",
+      "light-elevation-value",
+      (val) => {
+        this.settings.lightElevation = val;
+        return `${Math.round(val)}°`;
+      }
+    );
+    this.bindSlider("rim-slider", "rim-value", (val) => {
+      this.settings.rimStrength = val;
+      return val.toFixed(1);
+    });
+  }
+
+  private setupEaseSelect() {
+    const select = document.getElementById("ease-select") as HTMLSelectElement;
+    if (!select) return;
+
+    MORPH_EASES.forEach((ease) => {
+      const option = document.createElement("option");
+      option.value = ease;
+      option.textContent = ease;
+      select.append(option);
+    });
+    select.value = this.settings.morphEase;
+    // Takes effect from the next morph
+    select.addEventListener(
+      "change",
+      () => {
+        this.settings.morphEase = select.value;
+      },
+      { signal: this.listeners.signal }
+    );
+  }
+
+  private setupMorphSelects() {
+    this.bindSelect(
+      "matching-select",
+      MATCHING_METHODS,
+      (value) => {
+        this.settings.morphMatching = value as MatchingMethod;
+      },
+      this.settings.morphMatching
+    );
+
+    this.bindSelect(
+      "policy-select",
+      MORPH_POLICIES,
+      (value) => {
+        this.settings.morphPolicy = value as MorphPolicy;
+      },
+      this.settings.morphPolicy
+    );
+
+    // Like the ease, transitions take effect from the next morph
+    this.bindSelect(
+      "transition-select",
+      TRANSITION_STYLES,
+      (value) => {
+        this.settings.morphTransition = value as TransitionStyle;
+        this.updateTransitionParams();
+      },
+      this.settings.morphTransition
+    );
+
+    this.bindSelect(
+      "axis-select",
+      MORPH_AXES,
+      (value) => {
+        this.settings.morphAxis = value as MorphAxis;
+      },
+      this.settings.morphAxis
+    );
+
+    this.bindSelect(
+      "interaction-mode-select",
+      INTERACTION_MODES,
+      (value) => {
+        this.settings.interactionMode = value as InteractionMode;
+      },
+      this.settings.interactionMode
+    );
+  }
+
+  /** Shows only the parameters the selected transition style uses. */
+  private updateTransitionParams() {
+    document.querySelectorAll(".transition-param").forEach((el) => {
+      const styles = (el as HTMLElement).dataset.transitions?.split(" ") ?? [];
+      el.classList.toggle(
+        "hidden",
+        !styles.includes(this.settings.morphTransition)
+      );
+    });
+  }
+
+  private bindSelect(
+    id: string,
+    options: string[],
+    onChange: (value: string) => void,
+    initial: string
+  ) {
+    const select = document.getElementById(id) as HTMLSelectElement;
+    if (!select) return;
+
+    options.forEach((value) => {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = value.charAt(0).toUpperCase() + value.slice(1);
+      select.append(option);
+    });
+    select.value = initial;
+    select.addEventListener("change", () => onChange(select.value), {
+      signal: this.listeners.signal,
+    });
+  }
+
+  private setupAudioControls() {
+    AUDIO_SELECTS.forEach(([id, key]) =>
+      this.bindSelect(
+        id,
+        AUDIO_BANDS,
+        (value) => {
+          this.settings[key] = value as AudioBand;
+        },
+        this.settings[key]
+      )
+    );
+
+    this.bindSlider(
+      "audio-sensitivity-slider",
+      "audio-sensitivity-value",
+      (val) => {
+        this.settings.audioSensitivity = val;
+        return `${val.toFixed(1)}x`;
+      }
+    );
+
+    const fileInput = document.getElementById(
+      "audio-file-input"
+    ) as HTMLInputElement;
+    if (fileInput) {
+      fileInput.addEventListener(
+        "change",
+        () => {
+          const file = fileInput.files?.[0];
+          if (file) this.dispatch({ type: "audioFile", value: file });
+          fileInput.value = "";
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+    document
+      .getElementById("audio-mic")
+      ?.addEventListener("click", () => this.dispatch({ type: "audioMic" }), {
+        signal: this.listeners.signal,
+      });
+    document
+      .getElementById("audio-stop")
+      ?.addEventListener("click", () => this.dispatch({ type: "audioStop" }), {
+        signal: this.listeners.signal,
+      });
+  }
+
+  /** Shows what audio is playing, or why it is not. */
+  public updateAudioStatus(message: string, active: boolean) {
+    const status = document.getElementById("audio-status");
+    if (status) status.textContent = message;
+    const stop = document.getElementById("audio-stop") as HTMLButtonElement;
+    if (stop) stop.disabled = !active;
+  }
+
+  private setupSequenceControls() {
+    const fileInput = document.getElementById(
+      "sequence-file-input"
+    ) as HTMLInputElement;
+    if (fileInput) {
+      fileInput.addEventListener(
+        "change",
+        () => {
+          const file = fileInput.files?.[0];
+          if (file) this.dispatch({ type: "sequenceLoad", value: file });
+          fileInput.value = "";
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const playBtn = document.getElementById("sequence-play");
+    if (playBtn) {
+      playBtn.addEventListener(
+        "click",
+        () =>
+          this.dispatch({
+            type: "sequencePlay",
+            value: playBtn.dataset.playing !== "true",
+          }),
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const loopCheck = document.getElementById(
+      "sequence-loop"
+    ) as HTMLInputElement;
+    if (loopCheck) {
+      loopCheck.addEventListener(
+        "change",
+        () => this.dispatch({ type: "sequenceLoop", value: loopCheck.checked }),
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const scrub = document.getElementById("sequence-scrub") as HTMLInputElement;
+    if (scrub) {
+      // Playback keeps moving the slider, except while it is being dragged
+      scrub.addEventListener(
+        "input",
+        () => {
+          this.scrubbing = true;
+          this.dispatch({
+            type: "sequenceSeek",
+            value: parseFloat(scrub.value),
+          });
+        },
+        { signal: this.listeners.signal }
+      );
+      scrub.addEventListener("change", () => (this.scrubbing = false), {
+        signal: this.listeners.signal,
       });
+    }
+  }
+
+  public updateSequence(state: SequenceState) {
+    const { sequence, index, time, duration, playing } = state;
+
+    const stepLabel = document.getElementById("sequence-step");
+    if (stepLabel) {
+      const step = sequence && index >= 0 ? sequence.steps[index] : null;
+      stepLabel.textContent = !sequence
+        ? "None loaded"
+        : step
+        ? `${index + 1}/${sequence.steps.length} · ${step.shape}`
+        : sequence.name;
+    }
+
+    const playBtn = document.getElementById(
+      "sequence-play"
+    ) as HTMLButtonElement;
+    if (playBtn) {
+      playBtn.disabled = !sequence;
+      playBtn.dataset.playing = String(playing);
+      playBtn.textContent = playing ? "Pause" : "Play";
+    }
+
+    const loopCheck = document.getElementById(
+      "sequence-loop"
+    ) as HTMLInputElement;
+    if (loopCheck && sequence) loopCheck.checked = sequence.loop;
+
+    const scrub = document.getElementById("sequence-scrub") as HTMLInputElement;
+    if (scrub) {
+      scrub.disabled = !sequence;
+      scrub.max = duration.toFixed(1);
+      if (!this.scrubbing) scrub.value = time.toFixed(1);
+    }
+
+    const timeLabel = document.getElementById("sequence-time");
+    if (timeLabel) {
+      timeLabel.textContent = `${time.toFixed(1)} / ${duration.toFixed(1)}s`;
+    }
+  }
+
+  public showSequenceError(message: string) {
+    const stepLabel = document.getElementById("sequence-step");
+    if (stepLabel) stepLabel.textContent = message;
+  }
+
+  private setupPresets() {
+    const select = document.getElementById(
+      "preset-select"
+    ) as HTMLSelectElement;
+    const nameInput = document.getElementById(
+      "preset-name"
+    ) as HTMLInputElement;
+    const bind = (id: string, handler: () => void) =>
+      document
+        .getElementById(id)
+        ?.addEventListener("click", handler, { signal: this.listeners.signal });
+
+    bind("preset-save", () => {
+      const name = nameInput?.value.trim();
+      if (name) this.dispatch({ type: "presetSave", value: name });
+    });
+    bind("preset-load", () => {
+      if (select?.value)
+        this.dispatch({ type: "presetLoad", value: select.value });
     });
+    bind("preset-delete", () => {
+      if (select?.value)
+        this.dispatch({ type: "presetDelete", value: select.value });
+    });
+    bind("state-export", () =>
+      this.dispatch({
+        type: "stateExport",
+        value: nameInput?.value.trim() || select?.value,
+      })
+    );
+    bind("copy-link", () => this.dispatch({ type: "copyLink" }));
+
+    if (select && nameInput) {
+      select.addEventListener(
+        "change",
+        () => (nameInput.value = select.value),
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const importInput = document.getElementById(
+      "state-import-input"
+    ) as HTMLInputElement;
+    if (importInput) {
+      importInput.addEventListener(
+        "change",
+        () => {
+          const file = importInput.files?.[0];
+          if (file) this.dispatch({ type: "stateImport", value: file });
+          importInput.value = "";
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+  }
+
+  public updatePresets(names: string[], selected?: string) {
+    this.fillNameSelect("preset-select", names, "No presets saved", selected);
+  }
+
+  private setupCameraControls() {
+    const select = document.getElementById(
+      "camera-select"
+    ) as HTMLSelectElement;
+    const nameInput = document.getElementById(
+      "camera-name"
+    ) as HTMLInputElement;
+    const bind = (id: string, handler: () => void) =>
+      document
+        .getElementById(id)
+        ?.addEventListener("click", handler, { signal: this.listeners.signal });
+
+    bind("camera-reset", () => this.dispatch({ type: "cameraReset" }));
+    bind("camera-go", () => {
+      if (select?.value)
+        this.dispatch({ type: "cameraGo", value: select.value });
+    });
+    bind("camera-delete", () => {
+      if (select?.value)
+        this.dispatch({ type: "cameraDelete", value: select.value });
+    });
+    bind("camera-save", () => {
+      const name = nameInput?.value.trim();
+      if (name) this.dispatch({ type: "cameraSave", value: name });
+    });
+  }
+
+  public updateCameraKeyframes(names: string[], selected?: string) {
+    this.fillNameSelect("camera-select", names, "No views saved", selected);
+  }
+
+  private fillNameSelect(
+    id: string,
+    names: string[],
+    emptyLabel: string,
+    selected?: string
+  ) {
+    const select = document.getElementById(id) as HTMLSelectElement;
+    if (!select) return;
+
+    select.replaceChildren();
+    if (names.length === 0) {
+      const option = document.createElement("option");
+      option.value = "";
+      option.textContent = emptyLabel;
+      select.append(option);
+      return;
+    }
+    names.forEach((name) => {
+      const option = document.createElement("option");
+      option.value = name;
+      option.textContent = name;
+      select.append(option);
+    });
+    if (selected && names.includes(selected)) select.value = selected;
+  }
+
+  private setupExport() {
+    const button = document.getElementById("export-btn");
+    if (!button) return;
+    const value = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | null)?.value ?? "";
+
+    button.addEventListener(
+      "click",
+      () => {
+        if (button.dataset.running === "true") {
+          this.dispatch({ type: "exportCancel" });
+          return;
+        }
+
+        const [width, height] = value("export-size").split("x").map(Number);
+        const options: ExportOptions = {
+          ...DEFAULT_EXPORT_OPTIONS,
+          format: value("export-format") as ExportFormat,
+          fps: parseInt(value("export-fps"), 10) || DEFAULT_EXPORT_OPTIONS.fps,
+          width: width || DEFAULT_EXPORT_OPTIONS.width,
+          height: height || DEFAULT_EXPORT_OPTIONS.height,
+          duration:
+            parseFloat(value("export-duration")) ||
+            DEFAULT_EXPORT_OPTIONS.duration,
+        };
+        this.dispatch({
+          type: "export",
+          value: {
+            options,
+            start: (value("export-start") || "current") as ExportStart,
+          },
+        });
+      },
+      { signal: this.listeners.signal }
+    );
+  }
+
+  private setupPointCloudExport() {
+    const button = document.getElementById("cloud-export-btn");
+    if (!button) return;
+    const value = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | null)?.value ?? "";
+    const rotation = document.getElementById(
+      "cloud-rotation"
+    ) as HTMLInputElement | null;
+
+    button.addEventListener(
+      "click",
+      () => {
+        // An empty source is the live particles
+        const shape = value("cloud-source") || undefined;
+        this.dispatch({
+          type: "pointCloudExport",
+          value: {
+            format: (value("cloud-format") || "ply") as PointCloudFormat,
+            shape,
+            applyRotation: !shape && !!rotation?.checked,
+          },
+        });
+      },
+      { signal: this.listeners.signal }
+    );
+  }
+
+  /** Shows export progress; `total` of 0 means the export has ended. */
+  public updateExportProgress(frame: number, total: number, message = "") {
+    const running = total > 0;
+    const button = document.getElementById("export-btn");
+    if (button) {
+      button.dataset.running = String(running);
+      button.textContent = running ? "Cancel" : "Export";
+    }
+    const status = document.getElementById("export-status");
+    if (status) {
+      status.textContent = running ? `${frame}/${total}` : message;
+    }
+  }
+
+  public updateFps(fps: number) {
+    const counter = document.getElementById("fps-counter");
+    if (counter) counter.textContent = String(fps);
+  }
+
+  // Read every frame, so nothing needs dispatching
+  private setupEffectControls() {
+    this.bindCheck("bloom-toggle", (checked) => {
+      this.settings.bloom = checked;
+    });
+    this.bindCheck("trails-toggle", (checked) => {
+      this.settings.trails = checked;
+    });
+
+    this.bindSlider("bloom-strength-slider", "bloom-strength-value", (val) => {
+      this.settings.bloomStrength = val;
+      return val.toFixed(1);
+    });
+    this.bindSlider("bloom-radius-slider", "bloom-radius-value", (val) => {
+      this.settings.bloomRadius = val;
+      return val.toFixed(2);
+    });
+    this.bindSlider(
+      "bloom-threshold-slider",
+      "bloom-threshold-value",
+      (val) => {
+        this.settings.bloomThreshold = val;
+        return val.toFixed(2);
+      }
+    );
+    this.bindSlider("trail-length-slider", "trail-length-value", (val) => {
+      this.settings.trailLength = val;
+      return val.toFixed(2);
+    });
+  }
+
+  // Read every frame, like the effects
+  private setupDepthOfField() {
+    this.bindCheck("dof-toggle", (checked) => {
+      this.settings.depthOfField = checked;
+    });
+    this.bindSlider("dof-aperture-slider", "dof-aperture-value", (val) => {
+      this.settings.dofAperture = val;
+      return val.toFixed(2);
+    });
+    this.bindSlider("dof-blur-slider", "dof-blur-value", (val) => {
+      this.settings.dofMaxBlur = val;
+      return val.toFixed(1);
+    });
+  }
+
+  private setupQualityControls() {
+    const changed = () => this.dispatch({ type: "quality" });
+    this.bindSelect(
+      "quality-best-select",
+      QUALITY_NAMES,
+      (value) => {
+        this.settings.qualityBest = value as QualityName;
+        changed();
+      },
+      this.settings.qualityBest
+    );
+    this.bindSelect(
+      "quality-worst-select",
+      QUALITY_NAMES,
+      (value) => {
+        this.settings.qualityWorst = value as QualityName;
+        changed();
+      },
+      this.settings.qualityWorst
+    );
+
+    this.bindCheck("adaptive-quality", (checked) => {
+      this.settings.adaptiveQuality = checked;
+      changed();
+    });
+    this.bindCheck("show-stats", (checked) => {
+      this.settings.showStats = checked;
+      this.updateStatsVisibility();
+    });
+  }
+
+  /** Shows the quality level currently in use. */
+  public updateQuality(name: QualityName) {
+    const value = document.getElementById("quality-value");
+    if (value) value.textContent = name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  private updateStatsVisibility() {
+    document
+      .getElementById("perf-overlay")
+      ?.classList.toggle("hidden", !this.settings.showStats);
+  }
+
+  public updatePerformance(stats: PerformanceStats) {
+    const set = (id: string, text: string) => {
+      const el = document.getElementById(id);
+      if (el) el.textContent = text;
+    };
+    set(
+      "perf-frame",
+      [stats.p50, stats.p95, stats.p99].map((t) => t.toFixed(1)).join(" / ")
+    );
+    set("perf-calls", String(stats.drawCalls));
+    set(
+      "perf-particles",
+      stats.drawnParticles < stats.particles
+        ? `${stats.drawnParticles} / ${stats.particles}`
+        : String(stats.particles)
+    );
+    set("perf-quality", `${stats.quality} @${stats.pixelRatio.toFixed(2)}x`);
+    set("perf-memory", `~${(stats.gpuMemory / 1048576).toFixed(1)} MB`);
+  }
+
+  /** Any committed control change is a change of the shareable state. */
+  private setupChangeTracking() {
+    const panel = document.querySelector(".control-panel");
+    if (!panel) return;
+    // Controls that act on something other than the settings
+    const ignored = [
+      "camera-name",
+      "camera-select",
+      "export-format",
+      "export-size",
+      "export-fps",
+      "export-duration",
+      "export-start",
+      "cloud-source",
+      "cloud-format",
+      "cloud-rotation",
+      "preset-name",
+      "preset-select",
+      "text-input",
+      "sequence-loop",
+      "sequence-scrub",
+    ];
+    panel.addEventListener(
+      "change",
+      (e) => {
+        const target = e.target as HTMLInputElement;
+        if (target.type === "file" || ignored.includes(target.id)) return;
+        this.dispatch({ type: "settingsChanged" });
+      },
+      { signal: this.listeners.signal }
+    );
   }
 
   private setupToggles() {
@@ -164,9 +1566,13 @@ export class UIManager {
       "auto-rotate"
     ) as HTMLInputElement;
     if (autoRotateCheck) {
-      autoRotateCheck.addEventListener("change", (e) => {
-        this.settings.autoRotate = (e.target as HTMLInputElement).checked;
-      });
+      autoRotateCheck.addEventListener(
+        "change",
+        (e) => {
+          this.settings.autoRotate = (e.target as HTMLInputElement).checked;
+        },
+        { signal: this.listeners.signal }
+      );
     }
 
     const autoMorphCheck = document.getElementById(
@@ -174,32 +1580,52 @@ export class UIManager {
     ) as HTMLInputElement;
     if (autoMorphCheck) {
       autoMorphCheck.checked = this.settings.autoMorph;
-      autoMorphCheck.addEventListener("change", (e) => {
-        this.settings.autoMorph = (e.target as HTMLInputElement).checked;
-        if (this.settings.autoMorph) {
-          window.dispatchEvent(
-            new CustomEvent("setting-update", {
-              detail: { type: "autoMorphReset" },
-            })
-          );
-        }
-      });
+      autoMorphCheck.addEventListener(
+        "change",
+        (e) => {
+          this.settings.autoMorph = (e.target as HTMLInputElement).checked;
+          if (this.settings.autoMorph) {
+            this.dispatch({ type: "autoMorphReset" });
+          }
+        },
+        { signal: this.listeners.signal }
+      );
+    }
+
+    const shuffleCheck = document.getElementById(
+      "auto-morph-shuffle"
+    ) as HTMLInputElement;
+    if (shuffleCheck) {
+      shuffleCheck.checked = this.settings.autoMorphShuffle;
+      shuffleCheck.addEventListener(
+        "change",
+        (e) => {
+          this.settings.autoMorphShuffle = (
+            e.target as HTMLInputElement
+          ).checked;
+        },
+        { signal: this.listeners.signal }
+      );
     }
   }
 
   private setupFullscreen() {
     const fullscreenBtn = document.getElementById("fullscreen-btn");
     if (fullscreenBtn) {
-      fullscreenBtn.addEventListener("click", (e) => {
-        e.preventDefault();
-        if (!document.fullscreenElement) {
-          document.documentElement.requestFullscreen();
-          (e.target as HTMLElement).textContent = "Exit Fullscreen";
-        } else {
-          document.exitFullscreen();
-          (e.target as HTMLElement).textContent = "Fullscreen";
-        }
-      });
+      fullscreenBtn.addEventListener(
+        "click",
+        (e) => {
+          e.preventDefault();
+          if (!document.fullscreenElement) {
+            document.documentElement.requestFullscreen();
+            (e.target as HTMLElement).textContent = "Exit Fullscreen";
+          } else {
+            document.exitFullscreen();
+            (e.target as HTMLElement).textContent = "Fullscreen";
+          }
+        },
+        { signal: this.listeners.signal }
+      );
     }
   }
 
@@ -207,17 +1633,25 @@ export class UIManager {
     const controlPanel = document.querySelector(".control-panel");
     const controlToggle = document.getElementById("control-toggle");
     if (controlPanel && controlToggle) {
-      controlToggle.addEventListener("click", () => {
-        controlPanel.classList.toggle("collapsed");
-      });
+      controlToggle.addEventListener(
+        "click",
+        () => {
+          controlPanel.classList.toggle("collapsed");
+        },
+        { signal: this.listeners.signal }
+      );
     }
 
     const infoPanel = document.getElementById("info-panel");
     const infoToggle = document.getElementById("info-toggle");
     if (infoPanel && infoToggle) {
-      infoToggle.addEventListener("click", () => {
-        infoPanel.classList.toggle("open");
-      });
+      infoToggle.addEventListener(
+        "click",
+        () => {
+          infoPanel.classList.toggle("open");
+        },
+        { signal: this.listeners.signal }
+      );
     }
   }
 }
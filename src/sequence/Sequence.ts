@@ -0,0 +1,137 @@
+import { TransitionStyle, TRANSITION_STYLES } from "../utils/gpuMorph";
+
+/**
+ * One step of a choreographed sequence: morph to `shape`, then rest on it
+ * for `hold` seconds. Optional fields leave the current value unchanged.
+ */
+export interface SequenceStep {
+  shape: string;
+  /** Morph duration in seconds. */
+  duration: number;
+  /** Any GSAP ease name. */
+  ease: string;
+  /** Seconds to rest on the shape before the next step starts. */
+  hold: number;
+  /** Hex color, e.g. "#ff00ff". */
+  color?: string;
+  /** Multiplier of the auto-rotation speed; 0 stops the rotation. */
+  rotationSpeed?: number;
+  /** Whether the pointer pushes particles around. */
+  interaction?: boolean;
+  /** Name of a saved camera keyframe to move to during the morph. */
+  camera?: string;
+  /** Transition style of the morph; parameters come from the settings. */
+  transition?: TransitionStyle;
+}
+
+export interface Sequence {
+  name: string;
+  loop: boolean;
+  steps: SequenceStep[];
+}
+
+export type StepDefaults = Pick<SequenceStep, "duration" | "ease" | "hold">;
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SequenceError";
+  }
+}
+
+/**
+ * Validates sequence JSON, either `{ name?, loop?, steps: [...] }` or a bare
+ * array of steps. Missing timings are filled in from `defaults`.
+ */
+export function parseSequence(data: unknown, defaults: StepDefaults): Sequence {
+  const root = Array.isArray(data) ? { steps: data } : data;
+  if (!isObject(root) || !Array.isArray(root.steps)) {
+    throw new SequenceError("Sequence must have a steps array");
+  }
+  if (root.steps.length === 0) {
+    throw new SequenceError("Sequence has no steps");
+  }
+
+  const sequence: Sequence = {
+    name: typeof root.name === "string" ? root.name : "Sequence",
+    loop: root.loop === undefined ? true : root.loop === true,
+    steps: root.steps.map((step, i) => parseStep(step, i, defaults)),
+  };
+  // Playback runs on a clock, so the sequence needs some length to it
+  if (sequenceDuration(sequence) <= 0) {
+    throw new SequenceError("Sequence must last longer than zero seconds");
+  }
+  return sequence;
+}
+
+/** Total length in seconds of one pass through the sequence. */
+export function sequenceDuration(sequence: Sequence): number {
+  return sequence.steps.reduce((sum, s) => sum + s.duration + s.hold, 0);
+}
+
+function parseStep(
+  data: unknown,
+  index: number,
+  defaults: StepDefaults
+): SequenceStep {
+  const where = `Step ${index + 1}`;
+  // A bare string is shorthand for a step with default timings
+  const step = typeof data === "string" ? { shape: data } : data;
+  if (!isObject(step)) throw new SequenceError(`${where} must be an object`);
+
+  if (typeof step.shape !== "string" || !step.shape) {
+    throw new SequenceError(`${where} needs a shape`);
+  }
+  const number = (key: string, fallback: number) => {
+    const value = step[key] ?? fallback;
+    if (typeof value !== "number" || !isFinite(value) || value < 0) {
+      throw new SequenceError(
+        `${where}: ${key} must be zero or a positive number`
+      );
+    }
+    return value;
+  };
+
+  const result: SequenceStep = {
+    shape: step.shape,
+    duration: number("duration", defaults.duration),
+    ease: typeof step.ease === "string" ? step.ease : defaults.ease,
+    hold: number("hold", defaults.hold),
+  };
+
+  if (step.color !== undefined) {
+    if (typeof step.color !== "string" || !/^#[0-9a-f]{6}$/i.test(step.color)) {
+      throw new SequenceError(`${where}: color must look like #rrggbb`);
+    }
+    result.color = step.color;
+  }
+  if (step.rotationSpeed !== undefined) {
+    result.rotationSpeed = number("rotationSpeed", 1);
+  }
+  if (step.interaction !== undefined) {
+    if (typeof step.interaction !== "boolean") {
+      throw new SequenceError(`${where}: interaction must be true or false`);
+    }
+    result.interaction = step.interaction;
+  }
+  if (step.camera !== undefined) {
+    if (typeof step.camera !== "string") {
+      throw new SequenceError(`${where}: camera must be a keyframe name`);
+    }
+    result.camera = step.camera;
+  }
+  if (step.transition !== undefined) {
+    const transition = TRANSITION_STYLES.find((t) => t === step.transition);
+    if (!transition) {
+      throw new SequenceError(
+        `${where}: transition must be one of ${TRANSITION_STYLES.join(", ")}`
+      );
+    }
+    result.transition = transition;
+  }
+  return result;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,182 @@
+import { Sequence, SequenceStep, sequenceDuration } from "./Sequence";
+
+/** What the sequencer drives; implemented by the morpher. */
+export interface SequenceTarget {
+  /** Starts `step`, morphing over `duration` seconds. */
+  playStep(step: SequenceStep, duration: number): void;
+  /** Freezes or resumes the running morph. */
+  setMorphPaused(paused: boolean): void;
+}
+
+export interface SequenceState {
+  sequence: Sequence | null;
+  /** Index of the current step, -1 before the first one starts. */
+  index: number;
+  /** Seconds into the sequence. */
+  time: number;
+  duration: number;
+  playing: boolean;
+}
+
+// Shortest morph used when scrubbing lands on a step that is already holding
+const MIN_SEEK_MORPH = 0.4;
+// Longer frame gaps (e.g. a hidden tab) are not allowed to skip steps
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Plays a sequence on its own clock. Steps start when the clock crosses
+ * their start time, so playback, looping and scrubbing all go through the
+ * same `enterStep`.
+ */
+export class Sequencer {
+  private target: SequenceTarget;
+  private onChange: (state: SequenceState) => void;
+  private sequence: Sequence | null = null;
+  private startTimes: number[] = [];
+  private duration: number = 0;
+  private time: number = 0;
+  private index: number = -1;
+  private playing: boolean = false;
+  private lastNow: number = 0;
+
+  constructor(
+    target: SequenceTarget,
+    onChange: (state: SequenceState) => void
+  ) {
+    this.target = target;
+    this.onChange = onChange;
+  }
+
+  public get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public get state(): SequenceState {
+    return {
+      sequence: this.sequence,
+      index: this.index,
+      time: this.time,
+      duration: this.duration,
+      playing: this.playing,
+    };
+  }
+
+  public load(sequence: Sequence) {
+    this.pause();
+    this.sequence = sequence;
+    this.startTimes = [];
+    let start = 0;
+    sequence.steps.forEach((step) => {
+      this.startTimes.push(start);
+      start += step.duration + step.hold;
+    });
+    this.duration = sequenceDuration(sequence);
+    this.time = 0;
+    this.index = -1;
+    this.emit();
+  }
+
+  public play() {
+    if (!this.sequence || this.playing) return;
+    // Start over once a non-looping sequence has played through
+    if (this.time >= this.duration) {
+      this.time = 0;
+      this.index = -1;
+    }
+    this.playing = true;
+    // The clock starts on the next update
+    this.lastNow = -1;
+    this.target.setMorphPaused(false);
+    if (this.index < 0) this.enterStep(this.stepAt(this.time));
+    this.emit();
+  }
+
+  public pause() {
+    if (!this.playing) return;
+    this.playing = false;
+    this.target.setMorphPaused(true);
+    this.emit();
+  }
+
+  public setLoop(loop: boolean) {
+    if (!this.sequence) return;
+    this.sequence.loop = loop;
+    this.emit();
+  }
+
+  /** Jumps to `time` seconds, starting whichever step covers it. */
+  public seek(time: number) {
+    if (!this.sequence) return;
+    this.time = Math.min(Math.max(time, 0), this.duration);
+    const index = this.stepAt(this.time);
+    if (index !== this.index) {
+      this.enterStep(index);
+      // While paused, scrubbing shows the step without playing it
+      if (!this.playing) this.target.setMorphPaused(true);
+    }
+    this.emit();
+  }
+
+  /** Plays from the first step, whatever the current state. */
+  public restart() {
+    if (!this.sequence) return;
+    this.playing = false;
+    this.time = 0;
+    this.index = -1;
+    this.play();
+  }
+
+  /** Advances the clock; call once per frame with the frame time (ms). */
+  public update(now: number) {
+    if (!this.sequence || !this.playing) return;
+    if (this.lastNow < 0) this.lastNow = now;
+    const delta = Math.min((now - this.lastNow) / 1000, MAX_FRAME_TIME);
+    this.lastNow = now;
+    this.time += delta;
+
+    if (this.time >= this.duration) {
+      if (this.sequence.loop) {
+        this.time %= this.duration;
+        // Force step 0 to start again even if it is the only step
+        this.index = -1;
+      } else {
+        this.time = this.duration;
+        this.playing = false;
+        this.emit();
+        return;
+      }
+    }
+
+    const index = this.stepAt(this.time);
+    if (index !== this.index) this.enterStep(index);
+    this.emit();
+  }
+
+  private enterStep(index: number) {
+    if (!this.sequence) return;
+    this.index = index;
+    const step = this.sequence.steps[index];
+    // Scrubbing into the middle of a step only morphs for what is left of it
+    const elapsed = this.time - this.startTimes[index];
+    const remaining = step.duration - elapsed;
+    this.target.playStep(
+      step,
+      elapsed > 0 ? Math.max(remaining, MIN_SEEK_MORPH) : step.duration
+    );
+  }
+
+  private stepAt(time: number): number {
+    let index = 0;
+    while (
+      index + 1 < this.startTimes.length &&
+      this.startTimes[index + 1] <= time
+    ) {
+      index++;
+    }
+    return index;
+  }
+
+  private emit() {
+    this.onChange(this.state);
+  }
+}
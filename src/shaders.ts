@@ -1,62 +1,281 @@
 export const vertexShader = `
-  uniform vec3 uMouse;
+  uniform vec3 uPointers[MAX_POINTERS];
+  uniform int uPointerCount;
+  // Index into INTERACTION_MODES: 0 repel, 1 attract, 2 vortex
+  uniform int uMode;
+  // xyz: center, w: start time (ms)
+  uniform vec4 uShockwaves[MAX_SHOCKWAVES];
+  // Audio levels driving x: size, y: strength, z: displacement, w: color
+  uniform vec4 uAudio;
   uniform float uRadius;
   uniform float uStrength;
   uniform float uSize;
   uniform float uTime;
+  uniform float uProgress;
+  uniform float uStagger;
+  uniform sampler2D uEase;
+  // Index into TRANSITION_STYLES: 0 stagger, 1 sweep, 2 radial, 3 explode,
+  // 4 curl, 5 dissolve
+  uniform int uTransition;
+  uniform vec3 uAxis;
+  uniform float uNoiseScale;
+  uniform float uSpread;
+  // Depth of field: view distance in focus, blur per unit away from it (0
+  // when off) and the most a particle grows, in multiples of its size
+  uniform float uFocus;
+  uniform float uAperture;
+  uniform float uMaxBlur;
+  uniform vec3 uColor;
+  // Index into COLOR_MODES: 0 solid, 1 height, 2 distance, 3 velocity,
+  // 4 shape colors
+  uniform int uColorMode;
+  // Center and radius of the target shape, spanning the gradients
+  uniform vec4 uBounds;
+  // How much aSize varies the particle size, 0 to 1
+  uniform float uSizeVariance;
+  // 1 shrinks particles with distance, as seen from ATTENUATION_DISTANCE
+  uniform float uAttenuation;
+  // Index into SHADING_MODES: 0 unlit, 1 lit
+  uniform int uShading;
+  // Towards the directional light, in world space
+  uniform vec3 uLightDir;
+  uniform float uRim;
 
+  // position holds the morph target, aStart where the particle set off from
+  attribute vec3 aStart;
   attribute float aRandom;
+  attribute vec3 aColorStart;
+  attribute vec3 aColor;
+  // Size multiplier, 0.25 to 1.75
+  attribute float aSize;
+  // Surface normals where particles set off from and land
+  attribute vec3 aNormalStart;
+  attribute vec3 aNormal;
+
+  varying vec3 vColor;
+  // Color by the color mode, which vColor is mixed into
+  varying vec3 vBase;
+  varying float vAlpha;
+  varying float vBlur;
+  // Lit mode: diffuse light, and rim light along the silhouette
+  varying float vLight;
+  varying float vRim;
 
   float rand(vec3 co) {
     return fract(sin(dot(co.xyz, vec3(12.9898, 78.233, 45.164))) * 43758.5453);
   }
 
-  void main() {
-    vec3 pos = position;
-    vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
-    
-    float dist = distance(worldPosition.xyz, uMouse);
-    
-    // Smooth noise-like influence
-    float time = uTime * 0.0005;
-    float slowTime = uTime * 0.0002;
-    
+  // Baked GSAP ease curve, linearly interpolated between samples
+  float easeProgress(float t) {
+    float x = clamp(t, 0.0, 1.0) * (EASE_SAMPLES - 1.0);
+    float i = floor(x);
+    float a = texture2D(uEase, vec2((i + 0.5) / EASE_SAMPLES, 0.5)).r;
+    float b = texture2D(uEase, vec2((min(i + 1.0, EASE_SAMPLES - 1.0) + 0.5) / EASE_SAMPLES, 0.5)).r;
+    return mix(a, b, x - i);
+  }
+
+  // Start-time order of a particle, 0 to 1; see transitionDelay
+  float transitionDelay() {
+    float order;
+    if (uTransition == 1) {
+      order = dot(position, uAxis) / 20.0 + 0.5;
+    } else if (uTransition == 2) {
+      order = length(position) / 10.0;
+    } else {
+      return aRandom;
+    }
+    return clamp(mix(order, aRandom, 0.1), 0.0, 1.0);
+  }
+
+  // Divergence-free field, the curl of (sin y cos z, sin z cos x, sin x cos y)
+  vec3 curlNoise(vec3 p) {
+    vec3 s = sin(p);
+    vec3 c = cos(p);
+    return -vec3(s.x * s.y + c.z * c.x, s.y * s.z + c.x * c.y, s.z * s.x + c.y * c.z);
+  }
+
+  // Where a particle is on its way from aStart to position; see
+  // interpolatePositions for the CPU copy
+  vec3 transitionPath(float f) {
+    vec3 pos = mix(aStart, position, f);
+    if (uTransition == 3) {
+      // Quadratic curve through a point flung out from the midpoint
+      vec3 mid = (aStart + position) * 0.5;
+      float reach = uSpread * (0.5 + aRandom);
+      vec3 control = length(mid) > 0.001
+        ? mid + normalize(mid) * reach
+        : mid + vec3(0.0, reach, 0.0);
+      return (1.0 - f) * (1.0 - f) * aStart + 2.0 * (1.0 - f) * f * control + f * f * position;
+    }
+    if (uTransition == 4) {
+      // Bends the straight path along the field, most in the middle
+      return pos + curlNoise(pos * uNoiseScale) * sin(3.14159265 * f) * uSpread * 0.5;
+    }
+    if (uTransition == 5) {
+      // Drift away as dust for the first half, then gather on the target
+      vec3 drift = curlNoise(aStart * uNoiseScale) - vec3(0.0, 1.0, 0.0);
+      vec3 dust = aStart + drift * uSpread * (0.5 + aRandom);
+      return f < 0.5
+        ? mix(aStart, dust, f * 2.0)
+        : mix(dust, position, (f - 0.5) * 2.0);
+    }
+    return pos;
+  }
+
+  // How one pointer pushes a particle, by interaction mode
+  vec3 pointerOffset(vec3 world, vec3 pos, vec3 pointer) {
+    float dist = distance(world, pointer);
     float noise = aRandom;
-    
+
     // Create an irregular, organic falloff
     float falloff = smoothstep(uRadius * (1.2 + noise * 0.5), 0.0, dist);
-    
-    if (falloff > 0.0) {
-      // Smooth, drifty random direction
-      vec3 randomDir = vec3(
-        sin(pos.x * 0.15 + slowTime + noise * 6.28),
-        cos(pos.y * 0.15 + slowTime * 1.1 + noise * 6.28),
-        sin(pos.z * 0.15 + slowTime * 1.2 + noise * 6.28)
-      );
-      
-      vec3 repelDir = normalize(worldPosition.xyz - uMouse);
-      
-      // Mix repel and chaos, biased towards chaos but more fluid
-      vec3 finalDir = normalize(repelDir * 0.3 + randomDir * 0.7);
-      
-      // Apply displacement - reduced strength for more control
-      float displacement = falloff * uStrength * (0.8 + sin(uTime * 0.001 + noise * 6.28) * 0.2);
-      worldPosition.xyz += finalDir * displacement;
-    }
-    
+    if (falloff <= 0.0) return vec3(0.0);
+
+    // Smooth, drifty random direction
+    float slowTime = uTime * 0.0002;
+    vec3 randomDir = vec3(
+      sin(pos.x * 0.15 + slowTime + noise * 6.28),
+      cos(pos.y * 0.15 + slowTime * 1.1 + noise * 6.28),
+      sin(pos.z * 0.15 + slowTime * 1.2 + noise * 6.28)
+    );
+    vec3 away = normalize(world - pointer);
+    float strength = uStrength * (1.0 + uAudio.y * 2.0);
+    float displacement = falloff * strength * (0.8 + sin(uTime * 0.001 + noise * 6.28) * 0.2);
+
+    if (uMode == 1) {
+      // Gather in, without overshooting the pointer
+      vec3 dir = normalize(-away * 0.8 + randomDir * 0.2);
+      return dir * min(displacement, dist);
+    }
+    if (uMode == 2) {
+      // Swirl around the view axis through the pointer; the cross product
+      // fades out for particles right behind the pointer
+      vec3 axis = normalize(cameraPosition - pointer);
+      vec3 swirl = cross(axis, away);
+      return (swirl * 0.8 + randomDir * 0.2) * displacement;
+    }
+    // Mix repel and chaos, biased towards chaos but more fluid
+    return normalize(away * 0.3 + randomDir * 0.7) * displacement;
+  }
+
+  // An expanding ring that pushes particles outwards as it passes
+  vec3 shockwaveOffset(vec3 world, vec4 shockwave) {
+    float age = (uTime - shockwave.w) * 0.001;
+    if (age < 0.0 || age > SHOCKWAVE_LIFE) return vec3(0.0);
+
+    vec3 away = world - shockwave.xyz;
+    float dist = length(away);
+    float band = 1.0 - smoothstep(0.0, uRadius, abs(dist - age * SHOCKWAVE_SPEED));
+    float fade = 1.0 - age / SHOCKWAVE_LIFE;
+    return away / max(dist, 0.0001) * band * fade * uStrength * (1.0 + uAudio.y * 2.0) * 0.5;
+  }
+
+  // From a deep shade of uColor through uColor to a pale tint, so setColor
+  // moves the whole gradient
+  vec3 gradient(float t) {
+    t = clamp(t, 0.0, 1.0);
+    return t < 0.5
+      ? mix(uColor * 0.25, uColor, t * 2.0)
+      : mix(uColor, mix(uColor, vec3(1.0), 0.6), t * 2.0 - 1.0);
+  }
+
+  vec3 modeColor(vec3 pos, float local) {
+    if (uColorMode == 1) {
+      return gradient((pos.y - uBounds.y) / (2.0 * uBounds.w) + 0.5);
+    }
+    if (uColorMode == 2) {
+      return gradient(length(pos - uBounds.xyz) / uBounds.w);
+    }
+    if (uColorMode == 3 && uProgress < 1.0) {
+      // Distance covered over a little more progress, i.e. the speed;
+      // particles at rest keep uColor, fast ones turn pale
+      vec3 ahead = transitionPath(easeProgress(local + 0.02));
+      return gradient(1.0 - exp(-distance(ahead, pos) * 0.5) * 0.5);
+    }
+    return uColor;
+  }
+
+  void main() {
+    // Each particle is delayed by its order * uStagger and still lands on time
+    float local = clamp((uProgress - transitionDelay() * uStagger) / max(1.0 - uStagger, 0.0001), 0.0, 1.0);
+    float morph = easeProgress(local);
+
+    vColor = mix(aColorStart, aColor, morph);
+    vec3 pos = uProgress >= 1.0 ? position : transitionPath(morph);
+    vBase = modeColor(pos, local);
+    // Dissolving particles fade out as dust and back in on the target
+    vAlpha = uTransition == 5 ? 1.0 - sin(3.14159265 * morph) * 0.85 : 1.0;
+    // Audio pulses particles outwards from the center, each by its own amount
+    pos += normalize(pos + 0.0001) * uAudio.z * (0.5 + aRandom) * 3.0;
+    vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
+    vec3 world = worldPosition.xyz;
+
+    for (int i = 0; i < MAX_POINTERS; i++) {
+      if (i >= uPointerCount) break;
+      worldPosition.xyz += pointerOffset(world, pos, uPointers[i]);
+    }
+    for (int i = 0; i < MAX_SHOCKWAVES; i++) {
+      worldPosition.xyz += shockwaveOffset(world, uShockwaves[i]);
+    }
+
+    vLight = 1.0;
+    vRim = 0.0;
+    if (uShading == 1) {
+      vec3 surface = mat3(modelMatrix) * mix(aNormalStart, aNormal, morph);
+      // Opposite normals cancel out halfway; those particles face up
+      surface = length(surface) > 0.0001 ? normalize(surface) : vec3(0.0, 1.0, 0.0);
+      vec3 toCamera = normalize(cameraPosition - worldPosition.xyz);
+      vLight = 0.2 + max(dot(surface, uLightDir), 0.0) * 0.8;
+      vRim = pow(1.0 - abs(dot(surface, toCamera)), 3.0) * uRim;
+    }
+
     vec4 mvPosition = viewMatrix * worldPosition;
     gl_Position = projectionMatrix * mvPosition;
-    gl_PointSize = uSize;
+    gl_PointSize = uSize * (1.0 + uAudio.x * 1.5) * mix(1.0, aSize, uSizeVariance);
+    gl_PointSize *= mix(1.0, ATTENUATION_DISTANCE / max(-mvPosition.z, 0.1), uAttenuation);
+    // Out of focus particles grow into faint discs
+    vBlur = min(abs(-mvPosition.z - uFocus) * uAperture, uMaxBlur);
+    gl_PointSize *= 1.0 + vBlur;
   }
 `;
 
 export const fragmentShader = `
-  uniform vec3 uColor;
+  uniform float uColorMix;
   uniform float uOpacity;
+  uniform vec4 uAudio;
+  // Share of the radius that fades out towards the edge
+  uniform float uSoftness;
+  // A custom sprite replaces the disc when uUseSprite is set
+  uniform sampler2D uSprite;
+  uniform bool uUseSprite;
+
+  varying vec3 vColor;
+  varying vec3 vBase;
+  varying float vAlpha;
+  varying float vBlur;
+  varying float vLight;
+  varying float vRim;
 
   void main() {
     float dist = distance(gl_PointCoord, vec2(0.5));
-    if (dist > 0.5) discard;
-    gl_FragColor = vec4(uColor, uOpacity);
+    vec4 sprite = vec4(1.0);
+    if (uUseSprite) {
+      sprite = texture2D(uSprite, vec2(gl_PointCoord.x, 1.0 - gl_PointCoord.y));
+    } else if (dist > 0.5) {
+      discard;
+    }
+    float alpha = uOpacity * vAlpha * sprite.a;
+    // Out of focus particles soften too, and spread the same light over
+    // their larger area
+    float soft = max(uSoftness, vBlur / (1.0 + vBlur));
+    if (soft > 0.0) alpha *= 1.0 - smoothstep(0.5 - 0.5 * soft, 0.5, dist);
+    alpha /= (1.0 + vBlur) * (1.0 + vBlur);
+    // uColorMix blends towards per-particle colors (e.g. from an image)
+    vec3 color = mix(vBase, vColor, uColorMix) * sprite.rgb;
+    // Rim light is a pale tint of the particle's own color
+    color = color * vLight + mix(color, vec3(1.0), 0.5) * vRim;
+    // Audio brightens towards white
+    color = mix(color, vec3(1.0), clamp(uAudio.w * 0.6, 0.0, 1.0));
+    gl_FragColor = vec4(color, alpha);
   }
 `;
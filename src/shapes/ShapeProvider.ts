@@ -0,0 +1,107 @@
+import { Rng } from "../utils/random";
+
+export type { Rng };
+
+export type ShapeParameter =
+  | {
+      key: string;
+      label: string;
+      type: "number";
+      value: number;
+      min: number;
+      max: number;
+      step: number;
+    }
+  | {
+      key: string;
+      label: string;
+      type: "select";
+      value: string;
+      options: string[];
+    }
+  | { key: string; label: string; type: "text"; value: string };
+
+export type ShapeParams = { [key: string]: number | string };
+
+/**
+ * A procedural morph target. Parameters are edited in place by the control
+ * panel and read back on the next `generate`.
+ */
+export interface ShapeProvider {
+  name: string;
+  label: string;
+  parameters: ShapeParameter[];
+  /** Lets a morph to this shape cut into one that is still running. */
+  interrupts?: boolean;
+  generate(count: number, rng: Rng): Float32Array;
+}
+
+export interface ShapeDefinition {
+  name: string;
+  label: string;
+  parameters?: ShapeParameter[];
+  interrupts?: boolean;
+  generate(count: number, rng: Rng, params: ShapeParams): Float32Array;
+}
+
+/** Builds a provider whose `generate` receives the current parameter values. */
+export function defineShape(definition: ShapeDefinition): ShapeProvider {
+  const parameters = definition.parameters ?? [];
+  return {
+    name: definition.name,
+    label: definition.label,
+    parameters,
+    interrupts: definition.interrupts,
+    generate(count, rng) {
+      const params: ShapeParams = {};
+      parameters.forEach((p) => (params[p.key] = p.value));
+      return definition.generate(count, rng, params);
+    },
+  };
+}
+
+export class ShapeRegistry {
+  private providers: Map<string, ShapeProvider> = new Map();
+
+  public register(provider: ShapeProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): ShapeProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public list(): ShapeProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+/** Centers points and scales the largest dimension to `targetSize`. */
+export function fitToSize(points: Float32Array, targetSize: number = 20) {
+  let minX = Infinity,
+    minY = Infinity,
+    minZ = Infinity;
+  let maxX = -Infinity,
+    maxY = -Infinity,
+    maxZ = -Infinity;
+  for (let i = 0; i < points.length; i += 3) {
+    minX = Math.min(minX, points[i]);
+    maxX = Math.max(maxX, points[i]);
+    minY = Math.min(minY, points[i + 1]);
+    maxY = Math.max(maxY, points[i + 1]);
+    minZ = Math.min(minZ, points[i + 2]);
+    maxZ = Math.max(maxZ, points[i + 2]);
+  }
+
+  const maxDim = Math.max(maxX - minX, maxY - minY, maxZ - minZ);
+  const scale = maxDim > 0 && isFinite(maxDim) ? targetSize / maxDim : 1;
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const cz = (minZ + maxZ) / 2;
+  for (let i = 0; i < points.length; i += 3) {
+    points[i] = (points[i] - cx) * scale;
+    points[i + 1] = (points[i + 1] - cy) * scale;
+    points[i + 2] = (points[i + 2] - cz) * scale;
+  }
+  return points;
+}
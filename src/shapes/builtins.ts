@@ -0,0 +1,465 @@
+import { defineShape, fitToSize, ShapeProvider } from "./ShapeProvider";
+import { compileExpression, ExpressionError } from "./expression";
+
+const TAU = Math.PI * 2;
+
+const explode = defineShape({
+  name: "explode",
+  label: "Explode",
+  interrupts: true,
+  parameters: [
+    {
+      key: "spread",
+      label: "Spread",
+      type: "number",
+      value: 500,
+      min: 50,
+      max: 1000,
+      step: 10,
+    },
+  ],
+  generate(count, rng, { spread }) {
+    const s = spread as number;
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = (rng() - 0.5) * s;
+      positions[i * 3 + 1] = (rng() - 0.5) * s;
+      positions[i * 3 + 2] = (rng() - 0.5) * s;
+    }
+    return positions;
+  },
+});
+
+const sphere = defineShape({
+  name: "sphere",
+  label: "Sphere",
+  parameters: [
+    {
+      key: "radius",
+      label: "Radius",
+      type: "number",
+      value: 10,
+      min: 2,
+      max: 20,
+      step: 0.5,
+    },
+    {
+      key: "fill",
+      label: "Fill",
+      type: "select",
+      value: "surface",
+      options: ["surface", "volume"],
+    },
+  ],
+  generate(count, rng, { radius, fill }) {
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const z = rng() * 2 - 1;
+      const phi = rng() * TAU;
+      const ring = Math.sqrt(1 - z * z);
+      // Cube root keeps volume samples uniform rather than center-heavy
+      const r = (radius as number) * (fill === "volume" ? Math.cbrt(rng()) : 1);
+      positions[i * 3] = r * ring * Math.cos(phi);
+      positions[i * 3 + 1] = r * z;
+      positions[i * 3 + 2] = r * ring * Math.sin(phi);
+    }
+    return positions;
+  },
+});
+
+const torus = defineShape({
+  name: "torus",
+  label: "Torus",
+  parameters: [
+    {
+      key: "radius",
+      label: "Radius",
+      type: "number",
+      value: 7,
+      min: 2,
+      max: 12,
+      step: 0.5,
+    },
+    {
+      key: "tube",
+      label: "Tube",
+      type: "number",
+      value: 3,
+      min: 0.5,
+      max: 6,
+      step: 0.1,
+    },
+  ],
+  generate(count, rng, params) {
+    const R = params.radius as number;
+    const r = params.tube as number;
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const u = rng() * TAU;
+      let v = rng() * TAU;
+      // Rejection keeps density even, since the outer rim has more area
+      while (rng() > (R + r * Math.cos(v)) / (R + r)) v = rng() * TAU;
+      positions[i * 3] = (R + r * Math.cos(v)) * Math.cos(u);
+      positions[i * 3 + 1] = r * Math.sin(v);
+      positions[i * 3 + 2] = (R + r * Math.cos(v)) * Math.sin(u);
+    }
+    return positions;
+  },
+});
+
+const torusKnot = defineShape({
+  name: "torusKnot",
+  label: "Torus Knot",
+  parameters: [
+    { key: "p", label: "P", type: "number", value: 2, min: 1, max: 9, step: 1 },
+    { key: "q", label: "Q", type: "number", value: 3, min: 1, max: 9, step: 1 },
+    {
+      key: "tube",
+      label: "Tube",
+      type: "number",
+      value: 1.2,
+      min: 0.2,
+      max: 3,
+      step: 0.1,
+    },
+  ],
+  generate(count, rng, params) {
+    const p = params.p as number;
+    const q = params.q as number;
+    const tube = params.tube as number;
+    const positions = new Float32Array(count * 3);
+    const point = (t: number, out: number[]) => {
+      const r = 2 + Math.cos(q * t);
+      out[0] = r * Math.cos(p * t) * 3;
+      out[1] = -Math.sin(q * t) * 3;
+      out[2] = r * Math.sin(p * t) * 3;
+    };
+
+    const a = [0, 0, 0];
+    const b = [0, 0, 0];
+    for (let i = 0; i < count; i++) {
+      const t = rng() * TAU;
+      point(t, a);
+      point(t + 0.01, b);
+      // Frame around the curve: tangent T, normal N = T x up, binormal B
+      const tx = b[0] - a[0];
+      const ty = b[1] - a[1];
+      const tz = b[2] - a[2];
+      let nx = -tz;
+      let nz = tx;
+      const nl = Math.hypot(nx, nz) || 1;
+      nx /= nl;
+      nz /= nl;
+      let bx = ty * nz;
+      let by = tz * nx - tx * nz;
+      let bz = -ty * nx;
+      const bl = Math.hypot(bx, by, bz) || 1;
+      bx /= bl;
+      by /= bl;
+      bz /= bl;
+
+      const angle = rng() * TAU;
+      const c = Math.cos(angle) * tube;
+      const s = Math.sin(angle) * tube;
+      positions[i * 3] = a[0] + nx * c + bx * s;
+      positions[i * 3 + 1] = a[1] + by * s;
+      positions[i * 3 + 2] = a[2] + nz * c + bz * s;
+    }
+    return fitToSize(positions);
+  },
+});
+
+const helix = defineShape({
+  name: "helix",
+  label: "Helix / DNA",
+  parameters: [
+    {
+      key: "strands",
+      label: "Strands",
+      type: "number",
+      value: 2,
+      min: 1,
+      max: 4,
+      step: 1,
+    },
+    {
+      key: "turns",
+      label: "Turns",
+      type: "number",
+      value: 3,
+      min: 1,
+      max: 10,
+      step: 0.5,
+    },
+    {
+      key: "radius",
+      label: "Radius",
+      type: "number",
+      value: 4,
+      min: 1,
+      max: 10,
+      step: 0.5,
+    },
+    {
+      key: "rungs",
+      label: "Rungs",
+      type: "select",
+      value: "on",
+      options: ["on", "off"],
+    },
+  ],
+  generate(count, rng, params) {
+    const strands = params.strands as number;
+    const turns = params.turns as number;
+    const radius = params.radius as number;
+    const withRungs = params.rungs === "on" && strands > 1;
+    const height = 20;
+    const rungCount = Math.round(turns * 10);
+    const positions = new Float32Array(count * 3);
+
+    for (let i = 0; i < count; i++) {
+      let x: number, y: number, z: number;
+      if (withRungs && rng() < 0.25) {
+        // Base pairs bridging the first two strands
+        const t = (Math.floor(rng() * rungCount) + 0.5) / rungCount;
+        const angle = t * turns * TAU;
+        const other = angle + TAU / strands;
+        const f = rng();
+        x = radius * (Math.cos(angle) * (1 - f) + Math.cos(other) * f);
+        z = radius * (Math.sin(angle) * (1 - f) + Math.sin(other) * f);
+        y = (t - 0.5) * height;
+      } else {
+        const t = rng();
+        const strand = Math.floor(rng() * strands);
+        const angle = t * turns * TAU + (strand * TAU) / strands;
+        const jitter = (rng() - 0.5) * 0.6;
+        x = (radius + jitter) * Math.cos(angle);
+        z = (radius + jitter) * Math.sin(angle);
+        y = (t - 0.5) * height;
+      }
+      positions[i * 3] = x;
+      positions[i * 3 + 1] = y;
+      positions[i * 3 + 2] = z;
+    }
+    return positions;
+  },
+});
+
+const galaxy = defineShape({
+  name: "galaxy",
+  label: "Spiral Galaxy",
+  parameters: [
+    {
+      key: "arms",
+      label: "Arms",
+      type: "number",
+      value: 3,
+      min: 1,
+      max: 8,
+      step: 1,
+    },
+    {
+      key: "spin",
+      label: "Spin",
+      type: "number",
+      value: 1,
+      min: -3,
+      max: 3,
+      step: 0.1,
+    },
+    {
+      key: "spread",
+      label: "Spread",
+      type: "number",
+      value: 0.4,
+      min: 0,
+      max: 1.5,
+      step: 0.05,
+    },
+  ],
+  generate(count, rng, params) {
+    const arms = params.arms as number;
+    const spin = params.spin as number;
+    const spread = params.spread as number;
+    const radius = 10;
+    const positions = new Float32Array(count * 3);
+    const scatter = () =>
+      Math.pow(rng(), 3) * (rng() < 0.5 ? 1 : -1) * spread * radius * 0.3;
+
+    for (let i = 0; i < count; i++) {
+      const r = Math.pow(rng(), 1.5) * radius;
+      const armAngle = ((i % arms) / arms) * TAU;
+      const angle = armAngle + (r / radius) * spin * TAU * 0.5;
+      positions[i * 3] = Math.cos(angle) * r + scatter();
+      positions[i * 3 + 1] = scatter() * 0.4;
+      positions[i * 3 + 2] = Math.sin(angle) * r + scatter();
+    }
+    return positions;
+  },
+});
+
+const lorenz = defineShape({
+  name: "lorenz",
+  label: "Lorenz Attractor",
+  parameters: [
+    {
+      key: "sigma",
+      label: "Sigma",
+      type: "number",
+      value: 10,
+      min: 1,
+      max: 20,
+      step: 0.5,
+    },
+    {
+      key: "rho",
+      label: "Rho",
+      type: "number",
+      value: 28,
+      min: 10,
+      max: 50,
+      step: 0.5,
+    },
+    {
+      key: "beta",
+      label: "Beta",
+      type: "number",
+      value: 2.67,
+      min: 0.5,
+      max: 5,
+      step: 0.01,
+    },
+  ],
+  generate(count, rng, params) {
+    const sigma = params.sigma as number;
+    const rho = params.rho as number;
+    const beta = params.beta as number;
+    const dt = 0.005;
+    const positions = new Float32Array(count * 3);
+
+    let x = 0.1 + rng() * 0.1;
+    let y = 0;
+    let z = 0;
+    const step = () => {
+      const dx = sigma * (y - x);
+      const dy = x * (rho - z) - y;
+      const dz = x * y - beta * z;
+      x += dx * dt;
+      y += dy * dt;
+      z += dz * dt;
+    };
+
+    // Let the trajectory settle onto the attractor first
+    for (let i = 0; i < 1000; i++) step();
+    // Spread a fixed trajectory length over however many particles we have
+    const stepsPer = Math.max(1, Math.round(40000 / count));
+    for (let i = 0; i < count; i++) {
+      for (let s = 0; s < stepsPer; s++) step();
+      positions[i * 3] = x + (rng() - 0.5) * 0.3;
+      positions[i * 3 + 1] = z + (rng() - 0.5) * 0.3;
+      positions[i * 3 + 2] = y + (rng() - 0.5) * 0.3;
+    }
+    return fitToSize(positions);
+  },
+});
+
+const grid = defineShape({
+  name: "grid",
+  label: "Grid Plane",
+  parameters: [
+    {
+      key: "amplitude",
+      label: "Wave",
+      type: "number",
+      value: 1.5,
+      min: 0,
+      max: 6,
+      step: 0.1,
+    },
+    {
+      key: "frequency",
+      label: "Frequency",
+      type: "number",
+      value: 0.4,
+      min: 0,
+      max: 2,
+      step: 0.05,
+    },
+  ],
+  generate(count, _rng, params) {
+    const amplitude = params.amplitude as number;
+    const frequency = params.frequency as number;
+    const size = 20;
+    const side = Math.ceil(Math.sqrt(count));
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const x = ((i % side) / (side - 1 || 1) - 0.5) * size;
+      const z = (Math.floor(i / side) / (side - 1 || 1) - 0.5) * size;
+      positions[i * 3] = x;
+      positions[i * 3 + 1] =
+        amplitude * Math.sin(x * frequency) * Math.cos(z * frequency);
+      positions[i * 3 + 2] = z;
+    }
+    return positions;
+  },
+});
+
+const parametric = defineShape({
+  name: "parametric",
+  label: "Parametric",
+  parameters: [
+    {
+      key: "x",
+      label: "x(u, v)",
+      type: "text",
+      value: "(1 + 0.4 * cos(2 * PI * v)) * cos(2 * PI * u) * (1 - u * 0.5)",
+    },
+    {
+      key: "y",
+      label: "y(u, v)",
+      type: "text",
+      value: "0.4 * sin(2 * PI * v) + u * 1.5",
+    },
+    {
+      key: "z",
+      label: "z(u, v)",
+      type: "text",
+      value: "(1 + 0.4 * cos(2 * PI * v)) * sin(2 * PI * u) * (1 - u * 0.5)",
+    },
+  ],
+  generate(count, rng, params) {
+    // Throws on a bad expression; the caller keeps the current shape
+    const compile = (key: string) => {
+      try {
+        return compileExpression(params[key] as string);
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        throw new ExpressionError(`${key}(u, v): ${error.message}`);
+      }
+    };
+    const fx = compile("x");
+    const fy = compile("y");
+    const fz = compile("z");
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const u = rng();
+      const v = rng();
+      positions[i * 3] = fx(u, v) || 0;
+      positions[i * 3 + 1] = fy(u, v) || 0;
+      positions[i * 3 + 2] = fz(u, v) || 0;
+    }
+    return fitToSize(positions);
+  },
+});
+
+export const BUILTIN_SHAPES: ShapeProvider[] = [
+  explode,
+  sphere,
+  torus,
+  torusKnot,
+  helix,
+  galaxy,
+  lorenz,
+  grid,
+  parametric,
+];
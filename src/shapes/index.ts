@@ -0,0 +1,8 @@
+import { ShapeRegistry } from "./ShapeProvider";
+import { BUILTIN_SHAPES } from "./builtins";
+
+export * from "./ShapeProvider";
+
+/** Shared registry; register custom providers here before the UI starts. */
+export const shapeRegistry = new ShapeRegistry();
+BUILTIN_SHAPES.forEach((provider) => shapeRegistry.register(provider));
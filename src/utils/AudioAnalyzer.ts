@@ -0,0 +1,146 @@
+/** A frequency band to drive something with, or "off". */
+export type AudioBand = "off" | "bass" | "mid" | "treble";
+
+export const AUDIO_BANDS: AudioBand[] = ["off", "bass", "mid", "treble"];
+
+type Band = Exclude<AudioBand, "off">;
+
+export interface AudioLevels {
+  /** Loudness of each band, 0 to 1. */
+  levels: { [band in Band]: number };
+  /** Bands with a beat on this frame. */
+  beats: { [band in Band]: boolean };
+}
+
+// Frequency ranges (Hz) of the bands
+const BAND_RANGES: { [band in Band]: [number, number] } = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 12000],
+};
+const BANDS = Object.keys(BAND_RANGES) as Band[];
+
+// A beat is a band jumping this far above its recent average...
+const BEAT_RATIO = 1.35;
+// ...and above this level, at most this often (ms)
+const BEAT_MIN_LEVEL = 0.2;
+const BEAT_GAP = 300;
+// How quickly the recent average follows the level, per frame
+const AVERAGE_RATE = 0.05;
+
+/**
+ * Analyses a local audio file or the microphone with an AnalyserNode, as
+ * band levels plus simple energy-based beat detection.
+ */
+export class AudioAnalyzer {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private element: HTMLAudioElement | null = null;
+  private stream: MediaStream | null = null;
+  private data: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+  private averages = { bass: 0, mid: 0, treble: 0 };
+  private lastBeats = { bass: -Infinity, mid: -Infinity, treble: -Infinity };
+
+  public get isActive(): boolean {
+    return this.source !== null;
+  }
+
+  /** Plays `file` on a loop, audibly, and analyses it. */
+  public async playFile(file: File) {
+    this.stop();
+    const { context, analyser } = this.setup();
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    this.element = element;
+
+    const source = context.createMediaElementSource(element);
+    source.connect(analyser);
+    analyser.connect(context.destination);
+    this.source = source;
+    await context.resume();
+    await element.play();
+  }
+
+  /** Analyses the microphone; rejects if access is denied. */
+  public async useMicrophone() {
+    this.stop();
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Microphone input is not available here");
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const { context, analyser } = this.setup();
+    this.stream = stream;
+
+    // Not connected to the speakers, which would feed back
+    const source = context.createMediaStreamSource(stream);
+    source.connect(analyser);
+    this.source = source;
+    await context.resume();
+  }
+
+  public stop() {
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.source = null;
+    if (this.element) {
+      this.element.pause();
+      URL.revokeObjectURL(this.element.src);
+      this.element = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  public dispose() {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+    this.analyser = null;
+  }
+
+  /** Reads the current levels; call once per frame with the time (ms). */
+  public update(now: number): AudioLevels | null {
+    if (!this.analyser || !this.context || !this.source) return null;
+    this.analyser.getByteFrequencyData(this.data);
+
+    const binWidth = this.context.sampleRate / this.analyser.fftSize;
+    const result: AudioLevels = {
+      levels: { bass: 0, mid: 0, treble: 0 },
+      beats: { bass: false, mid: false, treble: false },
+    };
+    BANDS.forEach((band) => {
+      const [low, high] = BAND_RANGES[band];
+      const from = Math.max(1, Math.floor(low / binWidth));
+      const to = Math.min(this.data.length, Math.ceil(high / binWidth));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.data[i];
+      const level = to > from ? sum / ((to - from) * 255) : 0;
+      result.levels[band] = level;
+
+      const average = this.averages[band];
+      if (
+        level > average * BEAT_RATIO &&
+        level > BEAT_MIN_LEVEL &&
+        now - this.lastBeats[band] > BEAT_GAP
+      ) {
+        result.beats[band] = true;
+        this.lastBeats[band] = now;
+      }
+      this.averages[band] = average + (level - average) * AVERAGE_RATE;
+    });
+    return result;
+  }
+
+  // Created on first use, from a click, so autoplay rules allow it to start
+  private setup(): { context: AudioContext; analyser: AnalyserNode } {
+    if (!this.context || !this.analyser) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.smoothingTimeConstant = 0.75;
+      this.data = new Uint8Array(this.analyser.frequencyBinCount);
+    }
+    return { context: this.context, analyser: this.analyser };
+  }
+}
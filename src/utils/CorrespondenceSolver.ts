@@ -0,0 +1,85 @@
+import { computeCorrespondence, MatchingMethod } from "./correspondence";
+
+export class CorrespondenceSolver {
+  private worker: Worker | null = null;
+  private nextId: number = 0;
+  private pending: Map<
+    number,
+    { resolve: (perm: Uint32Array) => void; fallback: () => Uint32Array }
+  > = new Map();
+  // Below this many particles the main thread is fast enough
+  private workerThreshold: number;
+
+  constructor(workerThreshold: number = 20000) {
+    this.workerThreshold = workerThreshold;
+  }
+
+  /** Resolves with `perm`, where particle `i` travels to target `perm[i]`. */
+  public solve(
+    source: Float32Array,
+    target: Float32Array,
+    method: MatchingMethod
+  ): Promise<Uint32Array> {
+    const count = source.length / 3;
+    if (method === "random" || count < this.workerThreshold) {
+      return Promise.resolve(computeCorrespondence(source, target, method));
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(computeCorrespondence(source, target, method));
+    }
+
+    const id = this.nextId++;
+    // Copies, since the live position buffer keeps animating
+    const sourceCopy = source.slice();
+    const targetCopy = target.slice();
+    return new Promise((resolve) => {
+      this.pending.set(id, {
+        resolve,
+        fallback: () => computeCorrespondence(source, target, method),
+      });
+      worker.postMessage(
+        { id, source: sourceCopy, target: targetCopy, method },
+        { transfer: [sourceCopy.buffer, targetCopy.buffer] }
+      );
+    });
+  }
+
+  public dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    try {
+      this.worker = new Worker(
+        new URL("./correspondence.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+    } catch (error) {
+      console.error("Correspondence worker unavailable:", error);
+      return null;
+    }
+
+    this.worker.addEventListener(
+      "message",
+      (e: MessageEvent<{ id: number; perm: Uint32Array }>) => {
+        const request = this.pending.get(e.data.id);
+        this.pending.delete(e.data.id);
+        request?.resolve(e.data.perm);
+      }
+    );
+    // If the worker dies, finish outstanding requests on the main thread
+    this.worker.addEventListener("error", (e) => {
+      console.error("Correspondence worker failed:", e.message);
+      this.pending.forEach((request) => request.resolve(request.fallback()));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    });
+    return this.worker;
+  }
+}
@@ -0,0 +1,51 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed emitter. `Events` maps each event name to its payload, e.g.
+ * `EventEmitter<{ progress: number }>`.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /** Adds a listener; returns a function that removes it again. */
+  public on<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public once<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /** Calls every listener of `event`; returns false if there were none. */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): boolean {
+    const set = this.listeners[event];
+    if (!set || set.size === 0) return false;
+    // A copy, so listeners can remove themselves while being called
+    [...set].forEach((listener) => listener(payload));
+    return true;
+  }
+
+  public clear() {
+    this.listeners = {};
+  }
+}
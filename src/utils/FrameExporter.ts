@@ -0,0 +1,221 @@
+import { gsap } from "gsap";
+import { Zip, ZipPassThrough } from "three/examples/jsm/libs/fflate.module.js";
+
+export type ExportFormat = "webm" | "png";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fps: number;
+  width: number;
+  height: number;
+  /** Length of the recording in seconds. */
+  duration: number;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "webm",
+  fps: 60,
+  width: 1920,
+  height: 1080,
+  duration: 5,
+};
+
+/** What the exporter drives; implemented by the morpher. */
+export interface ExportTarget {
+  canvas: HTMLCanvasElement;
+  /** Renders at a fixed size, regardless of the window, until `endExport`. */
+  beginExport(width: number, height: number): void;
+  /** Advances everything time-based to `time` (ms) and renders a frame. */
+  renderFrame(time: number): void;
+  endExport(): void;
+}
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super("Export cancelled");
+    this.name = "ExportCancelledError";
+  }
+}
+
+interface FrameRecorder {
+  addFrame(frame: number): Promise<void>;
+  finish(): Promise<Blob>;
+  abort(): void;
+}
+
+/**
+ * Renders frames on a virtual clock: GSAP, the shader time and anything
+ * else time-based advance exactly 1/fps per frame, however long a frame
+ * takes to render and encode.
+ */
+export class FrameExporter {
+  private target: ExportTarget;
+  private running: boolean = false;
+  private cancelled: boolean = false;
+
+  constructor(target: ExportTarget) {
+    this.target = target;
+  }
+
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  public cancel() {
+    this.cancelled = true;
+  }
+
+  public async export(
+    options: ExportOptions,
+    onProgress?: (frame: number, total: number) => void
+  ): Promise<Blob> {
+    if (this.running) throw new Error("An export is already running");
+    this.running = true;
+    this.cancelled = false;
+
+    const { fps, width, height } = options;
+    const frames = Math.max(1, Math.round(options.duration * fps));
+    const gsapStart = gsap.ticker.time;
+    const clockStart = performance.now();
+
+    // Take GSAP off the wall clock; it is stepped by hand below
+    gsap.ticker.remove(gsap.updateRoot);
+    this.target.beginExport(width, height);
+
+    let recorder: FrameRecorder | null = null;
+    try {
+      recorder =
+        options.format === "webm"
+          ? new WebmRecorder(this.target.canvas, fps)
+          : new PngZipRecorder(this.target.canvas);
+
+      for (let frame = 0; frame < frames; frame++) {
+        if (this.cancelled) throw new ExportCancelledError();
+        const seconds = frame / fps;
+        gsap.updateRoot(gsapStart + seconds);
+        this.target.renderFrame(clockStart + seconds * 1000);
+        await recorder.addFrame(frame);
+        onProgress?.(frame + 1, frames);
+      }
+      return await recorder.finish();
+    } catch (error) {
+      recorder?.abort();
+      throw error;
+    } finally {
+      // Resume on the wall clock from where the export left off, so running
+      // tweens neither jump ahead nor rewind
+      const root = gsap.globalTimeline;
+      const exported = gsapStart + frames / fps;
+      root.startTime(root.startTime() + gsap.ticker.time - exported);
+      gsap.ticker.add(gsap.updateRoot);
+
+      this.running = false;
+      this.target.endExport();
+    }
+  }
+}
+
+/**
+ * MediaRecorder stamps frames with the wall clock, so frames are handed
+ * over in real time. A frame that renders slower than 1/fps is held longer
+ * in the video; use PNG frames for guaranteed timing.
+ */
+class WebmRecorder implements FrameRecorder {
+  private stream: MediaStream;
+  private track: CanvasCaptureMediaStreamTrack;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private frameTime: number;
+  private nextFrame: number = performance.now();
+
+  constructor(canvas: HTMLCanvasElement, fps: number) {
+    const mimeType = [
+      "video/webm;codecs=vp9",
+      "video/webm;codecs=vp8",
+      "video/webm",
+    ].find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error("WebM recording is not supported in this browser");
+    }
+
+    this.frameTime = 1000 / fps;
+    // Frame rate 0: frames are only captured on requestFrame()
+    this.stream = canvas.captureStream(0);
+    this.track =
+      this.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    this.recorder = new MediaRecorder(this.stream, {
+      mimeType,
+      videoBitsPerSecond: 25_000_000,
+    });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start();
+  }
+
+  public async addFrame() {
+    this.track.requestFrame();
+    this.nextFrame += this.frameTime;
+    const wait = this.nextFrame - performance.now();
+    await new Promise((resolve) => setTimeout(resolve, Math.max(wait, 0)));
+  }
+
+  public finish(): Promise<Blob> {
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        this.stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this.chunks, { type: "video/webm" }));
+      };
+      this.recorder.stop();
+    });
+  }
+
+  public abort() {
+    if (this.recorder.state !== "inactive") this.recorder.stop();
+    this.stream.getTracks().forEach((track) => track.stop());
+  }
+}
+
+/** Lossless frames, numbered frame_00000.png onwards, streamed into a zip. */
+class PngZipRecorder implements FrameRecorder {
+  private canvas: HTMLCanvasElement;
+  private chunks: Uint8Array<ArrayBuffer>[] = [];
+  private error: Error | null = null;
+  private zip: Zip;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.zip = new Zip((error, data) => {
+      if (error) this.error = error;
+      // fflate output is never backed by a SharedArrayBuffer
+      else this.chunks.push(data as Uint8Array<ArrayBuffer>);
+    });
+  }
+
+  public async addFrame(frame: number) {
+    // toBlob snapshots the canvas right away, before the frame is cleared
+    const blob = await new Promise<Blob | null>((resolve) =>
+      this.canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new Error(`Could not encode frame ${frame}`);
+
+    // PNGs are already compressed, so they are stored as-is
+    const file = new ZipPassThrough(
+      `frame_${String(frame).padStart(5, "0")}.png`
+    );
+    this.zip.add(file);
+    file.push(new Uint8Array(await blob.arrayBuffer()), true);
+    if (this.error) throw this.error;
+  }
+
+  public async finish(): Promise<Blob> {
+    this.zip.end();
+    if (this.error) throw this.error;
+    return new Blob(this.chunks, { type: "application/zip" });
+  }
+
+  public abort() {
+    this.zip.terminate();
+    this.chunks = [];
+  }
+}
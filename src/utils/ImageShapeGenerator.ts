@@ -0,0 +1,220 @@
+import { createRng } from "./random";
+
+export type ImageWeighting = "auto" | "alpha" | "luminance" | "inverted";
+
+export interface ImageShapeOptions {
+  /**
+   * How pixels attract particles. "auto" uses alpha for transparent images,
+   * otherwise luminance, inverted when the image has a light background.
+   */
+  weighting: ImageWeighting;
+  /** Thickness of the extruded cloud in normalized units. */
+  depth: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageShapeOptions = {
+  weighting: "auto",
+  depth: 1.5,
+};
+
+export interface ImageShape {
+  positions: Float32Array;
+  colors: Float32Array;
+  /** The image plane's normal, (0, 0, 1), for every point. */
+  normals: Float32Array;
+}
+
+interface ImageSource {
+  width: number;
+  height: number;
+  // Cumulative pixel weights, for sampling pixels proportionally
+  cdf: Float64Array;
+  weights: Float32Array;
+  // sRGB per pixel, as the particle shader shows colors unconverted
+  rgb: Float32Array;
+  depth: number;
+}
+
+export class ImageShapeGenerator {
+  private maxResolution: number;
+  private sources: Map<string, ImageSource> = new Map();
+  private seed: number = 0;
+
+  constructor(maxResolution: number = 400) {
+    this.maxResolution = maxResolution;
+  }
+
+  /**
+   * Rasterizes an image and samples `particleCount` points from it. The pixel
+   * data is cached under `key`, so `sample(key, ...)` can resample it later.
+   */
+  public async generate(
+    file: Blob,
+    key: string,
+    particleCount: number,
+    options: ImageShapeOptions = DEFAULT_IMAGE_OPTIONS
+  ): Promise<ImageShape | null> {
+    let image: ImageBitmap;
+    try {
+      image = await createImageBitmap(file);
+    } catch (error) {
+      console.error("Error decoding image:", error);
+      return null;
+    }
+
+    const scale = Math.min(
+      1,
+      this.maxResolution / Math.max(image.width, image.height)
+    );
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, width, height);
+    image.close();
+
+    const source = this.buildSource(
+      ctx.getImageData(0, 0, width, height).data,
+      width,
+      height,
+      options
+    );
+    if (!source) {
+      console.error("Image has no visible pixels to sample");
+      return null;
+    }
+
+    this.sources.set(key, source);
+    return this.sample(key, particleCount);
+  }
+
+  public setSeed(seed: number) {
+    this.seed = seed;
+  }
+
+  public sample(key: string, particleCount: number): ImageShape | null {
+    const source = this.sources.get(key);
+    if (!source) return null;
+
+    const { width, height, cdf, weights, rgb, depth } = source;
+    const positions = new Float32Array(particleCount * 3);
+    const colors = new Float32Array(particleCount * 3);
+    const normals = new Float32Array(particleCount * 3);
+    const total = cdf[cdf.length - 1];
+    const rng = createRng(this.seed, `${key}:${particleCount}`);
+
+    // Fit the longest side to the same 20 units the model loader uses
+    const unit = 20 / Math.max(width, height);
+
+    for (let i = 0; i < particleCount; i++) {
+      const pixel = this.findPixel(cdf, rng() * total);
+      const px = pixel % width;
+      const py = Math.floor(pixel / width);
+
+      positions[i * 3] = (px + rng() - width / 2) * unit;
+      positions[i * 3 + 1] = (height / 2 - py - rng()) * unit;
+      // Stronger pixels spread deeper, giving the flat image some volume
+      positions[i * 3 + 2] = (rng() - 0.5) * depth * weights[pixel];
+
+      colors[i * 3] = rgb[pixel * 3];
+      colors[i * 3 + 1] = rgb[pixel * 3 + 1];
+      colors[i * 3 + 2] = rgb[pixel * 3 + 2];
+      // Lit as the flat picture it is, not as a ball
+      normals[i * 3 + 2] = 1;
+    }
+
+    return { positions, colors, normals };
+  }
+
+  public evict(key: string) {
+    this.sources.delete(key);
+  }
+
+  private buildSource(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: ImageShapeOptions
+  ): ImageSource | null {
+    const pixelCount = width * height;
+    const weighting =
+      options.weighting === "auto"
+        ? this.detectWeighting(data, width, height)
+        : options.weighting;
+
+    const weights = new Float32Array(pixelCount);
+    const cdf = new Float64Array(pixelCount);
+    const rgb = new Float32Array(pixelCount * 3);
+
+    let total = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      const r = data[i * 4] / 255;
+      const g = data[i * 4 + 1] / 255;
+      const b = data[i * 4 + 2] / 255;
+      const a = data[i * 4 + 3] / 255;
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+      let weight = a;
+      if (weighting === "luminance") weight = luminance * a;
+      if (weighting === "inverted") weight = (1 - luminance) * a;
+      // Ignore near-empty pixels so backgrounds stay clean
+      if (weight < 0.05) weight = 0;
+
+      weights[i] = weight;
+      total += weight;
+      cdf[i] = total;
+
+      rgb[i * 3] = r;
+      rgb[i * 3 + 1] = g;
+      rgb[i * 3 + 2] = b;
+    }
+
+    if (total <= 0) return null;
+    return { width, height, cdf, weights, rgb, depth: options.depth };
+  }
+
+  private detectWeighting(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number
+  ): ImageWeighting {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 250) return "alpha";
+    }
+
+    // Opaque image: judge the background from the border pixels
+    let sum = 0;
+    let count = 0;
+    const addPixel = (x: number, y: number) => {
+      const i = (y * width + x) * 4;
+      sum +=
+        (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      count++;
+    };
+    for (let x = 0; x < width; x++) {
+      addPixel(x, 0);
+      addPixel(x, height - 1);
+    }
+    for (let y = 0; y < height; y++) {
+      addPixel(0, y);
+      addPixel(width - 1, y);
+    }
+
+    return sum / count > 0.5 ? "inverted" : "luminance";
+  }
+
+  private findPixel(cdf: Float64Array, value: number): number {
+    let low = 0;
+    let high = cdf.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cdf[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -1,42 +1,285 @@
 import * as THREE from "three";
 import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
 import { MeshSurfaceSampler } from "three/examples/jsm/math/MeshSurfaceSampler.js";
+import { createRng, Rng } from "./random";
+import { SampleCache, hashData } from "./SampleCache";
+import {
+  BUNDLE_EXTENSION,
+  decodePointBundle,
+  isPointBundle,
+} from "./pointBundle";
+
+export type ModelFormat =
+  | "obj"
+  | "gltf"
+  | "glb"
+  | "ply"
+  | "stl"
+  | "xyz"
+  | "bundle";
+
+export const SUPPORTED_EXTENSIONS = [
+  ".obj",
+  ".gltf",
+  ".glb",
+  ".ply",
+  ".stl",
+  ".xyz",
+  ".csv",
+  ".txt",
+  BUNDLE_EXTENSION,
+];
+
+export interface ModelLoadOptions {
+  /**
+   * Multiplies the share of particles given to the named parts, on top of
+   * their surface area. Useful for small details like a crown.
+   */
+  partWeights?: { [partName: string]: number };
+}
+
+/** Sampled points, plus the surface normal and color at each. */
+export interface SampledPoints {
+  positions: Float32Array;
+  /** For surfaces, and point lists that come with normals. */
+  normals?: Float32Array;
+  /**
+   * Only for models with vertex colors or textures. sRGB, like image colors,
+   * since the particle shader shows colors unconverted.
+   */
+  colors?: Float32Array;
+}
+
+interface MeshPart {
+  name: string;
+  mesh: THREE.Mesh;
+  area: number;
+  /** Pixels of the material's color map, looked up by the mesh's UVs. */
+  texture?: TexturePixels;
+}
+
+interface TexturePixels {
+  image: ImageData;
+  flipY: boolean;
+}
+
+// A fetched or dropped file, parsed only once a sample is not in the cache
+interface PendingFile {
+  data: ArrayBuffer;
+  name: string;
+  options: ModelLoadOptions;
+}
+
+// Present at runtime, but missing from the three.js type definitions
+type SeedableSampler = MeshSurfaceSampler & {
+  setRandomGenerator(rng: Rng): MeshSurfaceSampler;
+};
+
+// A parsed model is either a surface to sample or a ready-made point list
+type ModelSource =
+  | { kind: "mesh"; parts: MeshPart[]; options: ModelLoadOptions }
+  | {
+      kind: "points";
+      points: Float32Array;
+      normals?: Float32Array;
+      colors?: Float32Array;
+    };
+
+// Textures are read at most this large (px) to color samples
+const MAX_TEXTURE_SIZE = 512;
+
+// Share of a model's progress that is the download; sampling is the rest
+const DOWNLOAD_SHARE = 0.9;
 
 export class ModelLoader {
-  private loader: OBJLoader;
+  private fileLoader: THREE.FileLoader;
+  private objLoader: OBJLoader;
+  private gltfLoader: GLTFLoader;
+  private plyLoader: PLYLoader;
+  private stlLoader: STLLoader;
+  // Normalized sources by path, so a model can be resampled at a new count
+  // without fetching and parsing it again.
+  private sourceCache: Map<string, ModelSource> = new Map();
+  private pending: Map<string, PendingFile> = new Map();
+  // Content hashes of file-backed models, for the sample cache
+  private hashes: Map<string, string> = new Map();
+  private sampleCache: SampleCache = new SampleCache();
+  private seed: number = 0;
 
   constructor() {
-    this.loader = new OBJLoader();
+    this.fileLoader = new THREE.FileLoader();
+    this.fileLoader.setResponseType("arraybuffer");
+    this.objLoader = new OBJLoader();
+    this.gltfLoader = new GLTFLoader();
+    this.plyLoader = new PLYLoader();
+    this.stlLoader = new STLLoader();
+  }
+
+  /** Seeds all sampling, so a seed, key and count always give the same points. */
+  public setSeed(seed: number) {
+    this.seed = seed;
   }
 
+  /**
+   * Fetches and samples a model. `onProgress` covers the download and the
+   * sampling; samples of a file seen before come from the cache. Colors
+   * come along for models with vertex colors or textures.
+   */
   public async load(
     path: string,
     particleCount: number,
-    onProgress?: (percent: number) => void
-  ): Promise<Float32Array | null> {
+    onProgress?: (percent: number) => void,
+    options?: ModelLoadOptions
+  ): Promise<SampledPoints | null> {
+    const cached = this.sourceCache.get(path);
+    const pending = this.pending.get(path);
+    if (options && cached?.kind === "mesh") cached.options = options;
+    if (options && pending) pending.options = options;
+
+    if (!cached && !pending) {
+      const data = await this.fetch(path, (percent) =>
+        onProgress?.(percent * DOWNLOAD_SHARE)
+      );
+      if (!data) return null;
+      await this.addFile(path, data, path, options);
+    }
+    const points = await this.sampleCached(path, particleCount);
+    onProgress?.(100);
+    return points;
+  }
+
+  /**
+   * Parses a model from an in-memory file (e.g. drag-and-drop). The source is
+   * cached under `key`, so later calls to `load(key, ...)` resample it.
+   */
+  public async loadFile(
+    file: File,
+    key: string,
+    particleCount: number,
+    options?: ModelLoadOptions
+  ): Promise<SampledPoints | null> {
+    this.evict(key);
+    await this.addFile(key, await file.arrayBuffer(), file.name, options);
+    return this.sampleCached(key, particleCount);
+  }
+
+  /**
+   * Parses and samples a model file outside the cache, with normals and
+   * colors if asked for; used to bake point bundles.
+   */
+  public async sampleFile(
+    data: ArrayBuffer,
+    name: string,
+    particleCount: number,
+    include: { normals?: boolean; colors?: boolean } = {}
+  ): Promise<SampledPoints | null> {
+    const source = await this.parse(data, name, {});
+    if (!source) return null;
+    const rng = createRng(this.seed, `${name}:${particleCount}`);
+    if (source.kind === "points") {
+      const points = this.resamplePoints(source, particleCount, rng);
+      return {
+        positions: points.positions,
+        normals: include.normals ? points.normals : undefined,
+        colors: include.colors ? points.colors : undefined,
+      };
+    }
+
+    const hasColors = source.parts.some(hasPartColors);
+    const result: SampledPoints = {
+      positions: new Float32Array(particleCount * 3),
+      normals: include.normals
+        ? new Float32Array(particleCount * 3)
+        : undefined,
+      colors:
+        include.colors && hasColors
+          ? new Float32Array(particleCount * 3)
+          : undefined,
+    };
+    this.samplePointsOnSurface(source.parts, particleCount, {}, rng, result);
+    return result;
+  }
+
+  /**
+   * Samples an already-built object (e.g. generated geometry). Like
+   * `loadFile`, the result is cached under `key` for resampling.
+   */
+  public loadObject(
+    obj: THREE.Object3D,
+    key: string,
+    particleCount: number,
+    options: ModelLoadOptions = {}
+  ): SampledPoints | null {
+    const source = this.fromObject(obj, options);
+    if (!source) return null;
+    this.evict(key);
+    this.sourceCache.set(key, source);
+    return this.sample(source, key, particleCount);
+  }
+
+  public evict(key: string) {
+    const source = this.sourceCache.get(key);
+    if (source?.kind === "mesh") {
+      source.parts.forEach((part) => part.mesh.geometry.dispose());
+    }
+    this.sourceCache.delete(key);
+    this.pending.delete(key);
+    this.hashes.delete(key);
+  }
+
+  /**
+   * Detects the format from well-known magic bytes, falling back to the
+   * file extension and finally to sniffing the text content.
+   */
+  public detectFormat(name: string, data: ArrayBuffer): ModelFormat | null {
+    const head = new TextDecoder().decode(data.slice(0, 256));
+
+    if (isPointBundle(data)) return "bundle";
+    if (head.startsWith("glTF")) return "glb";
+    if (head.startsWith("ply")) return "ply";
+    if (data.byteLength >= 84) {
+      // Binary STL: 80 byte header, uint32 face count, 50 bytes per face
+      const faces = new DataView(data).getUint32(80, true);
+      if (84 + faces * 50 === data.byteLength) return "stl";
+    }
+
+    const ext = name.toLowerCase().split(".").pop();
+    switch (ext) {
+      case "obj":
+      case "gltf":
+      case "glb":
+      case "ply":
+      case "stl":
+        return ext;
+      case "xyz":
+      case "csv":
+      case "txt":
+        return "xyz";
+      case BUNDLE_EXTENSION.slice(1):
+        return "bundle";
+    }
+
+    const text = head.trimStart();
+    if (text.startsWith("{")) return "gltf";
+    if (text.startsWith("solid")) return "stl";
+    if (/^(v|vn|vt|f|o|g|mtllib|#)\s/m.test(text)) return "obj";
+    if (/^-?[\d.]+([eE][-+]?\d+)?[\s,;]+-?[\d.]/m.test(text)) return "xyz";
+    return null;
+  }
+
+  private fetch(
+    path: string,
+    onProgress: (percent: number) => void
+  ): Promise<ArrayBuffer | null> {
     return new Promise((resolve) => {
-      this.loader.load(
+      this.fileLoader.load(
         path,
-        (obj) => {
-          let mesh: THREE.Mesh | null = null;
-          obj.traverse((child) => {
-            if ((child as THREE.Mesh).isMesh) {
-              mesh = child as THREE.Mesh;
-            }
-          });
-
-          if (mesh) {
-            this.normalizeMesh(mesh);
-            const points = this.samplePointsOnSurface(mesh, particleCount);
-            resolve(points);
-          } else {
-            resolve(null);
-          }
-        },
+        (data) => resolve(data as ArrayBuffer),
         (xhr) => {
-          if (xhr.total > 0 && onProgress) {
-            onProgress((xhr.loaded / xhr.total) * 100);
-          }
+          if (xhr.total > 0) onProgress((xhr.loaded / xhr.total) * 100);
         },
         (error) => {
           console.error("Error loading model:", error);
@@ -46,32 +289,464 @@ export class ModelLoader {
     });
   }
 
-  private normalizeMesh(mesh: THREE.Mesh, targetSize: number = 20) {
-    mesh.geometry.computeBoundingBox();
-    const box = mesh.geometry.boundingBox!;
+  private async addFile(
+    key: string,
+    data: ArrayBuffer,
+    name: string,
+    options: ModelLoadOptions = {}
+  ) {
+    this.pending.set(key, { data, name, options });
+    // Bundles and point lists are cheap to resample, so are never cached
+    const format = this.detectFormat(name, data);
+    if (format === "bundle" || format === "xyz") return;
+    const hash = await hashData(data);
+    if (hash) this.hashes.set(key, hash);
+  }
+
+  /** Parses a pending file on first use. */
+  private async getSource(key: string): Promise<ModelSource | null> {
+    const cached = this.sourceCache.get(key);
+    if (cached) return cached;
+    const file = this.pending.get(key);
+    if (!file) return null;
+    this.pending.delete(key);
+
+    try {
+      const source = await this.parse(file.data, file.name, file.options);
+      if (!source) {
+        console.error(`No usable geometry in ${file.name}`);
+        return null;
+      }
+      this.sourceCache.set(key, source);
+      return source;
+    } catch (error) {
+      console.error(`Error parsing model ${file.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Samples `key`, or reads the sample from IndexedDB. Entries are keyed by
+   * the file's content hash and count, plus the seed, key and part weights
+   * that also decide where the points land.
+   */
+  private async sampleCached(
+    key: string,
+    count: number
+  ): Promise<SampledPoints | null> {
+    const hash = this.hashes.get(key);
+    const source = this.sourceCache.get(key);
+    const weights =
+      (source?.kind === "mesh"
+        ? source.options
+        : this.pending.get(key)?.options
+      )?.partWeights ?? {};
+    const cacheKey =
+      hash && [hash, count, this.seed, key, JSON.stringify(weights)].join(":");
+
+    if (cacheKey) {
+      const cached = await this.sampleCache.get(cacheKey);
+      if (cached) return cached;
+    }
+    const parsed = await this.getSource(key);
+    if (!parsed) return null;
+    const sampled = this.sample(parsed, key, count);
+    if (cacheKey) this.sampleCache.set(cacheKey, sampled);
+    return sampled;
+  }
+
+  private async parse(
+    data: ArrayBuffer,
+    name: string,
+    options: ModelLoadOptions
+  ): Promise<ModelSource | null> {
+    const format = this.detectFormat(name, data);
+    switch (format) {
+      case "obj":
+        return this.fromObject(
+          this.objLoader.parse(new TextDecoder().decode(data)),
+          options
+        );
+      case "gltf":
+      case "glb": {
+        const gltf = await this.gltfLoader.parseAsync(data, "");
+        return this.fromObject(gltf.scene, options);
+      }
+      case "ply": {
+        const geometry = this.plyLoader.parse(data);
+        // PLY files without faces are point clouds
+        if (!geometry.index) {
+          const { position, normal, color } = geometry.attributes;
+          return this.fromPoints(position.array as Float32Array, {
+            normals: normal?.array as Float32Array | undefined,
+            colors: color && toSRGB(color.array as Float32Array),
+          });
+        }
+        return this.fromObject(new THREE.Mesh(geometry), options);
+      }
+      case "stl":
+        return this.fromObject(
+          new THREE.Mesh(this.stlLoader.parse(data)),
+          options
+        );
+      case "xyz":
+        return this.fromPoints(
+          this.parsePointList(new TextDecoder().decode(data))
+        );
+      case "bundle": {
+        // Baked already normalized, and at the count they will be used at
+        const bundle = decodePointBundle(data);
+        return {
+          kind: "points",
+          points: bundle.positions,
+          normals: bundle.normals,
+          colors: bundle.colors,
+        };
+      }
+      default:
+        console.error(`Unrecognized model format: ${name}`);
+        return null;
+    }
+  }
+
+  /**
+   * Collects every mesh under `obj` with its world transform baked in, so
+   * multi-part models are sampled as one surface.
+   */
+  private fromObject(
+    obj: THREE.Object3D,
+    options: ModelLoadOptions
+  ): ModelSource | null {
+    obj.updateMatrixWorld(true);
+
+    const parts: MeshPart[] = [];
+    obj.traverse((child) => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.geometry.attributes.position) return;
+
+      const geometry = new THREE.BufferGeometry();
+      // Cloned, since glTF meshes may share one geometry between nodes
+      geometry.setAttribute(
+        "position",
+        mesh.geometry.attributes.position.clone()
+      );
+      // Smooth normals where the model has them; otherwise samples get the
+      // normals of their faces
+      if (mesh.geometry.attributes.normal) {
+        geometry.setAttribute(
+          "normal",
+          mesh.geometry.attributes.normal.clone()
+        );
+      }
+      // Vertex colors and textures, which samples take their colors from
+      if (mesh.geometry.attributes.color) {
+        geometry.setAttribute("color", mesh.geometry.attributes.color.clone());
+      }
+      const map = (mesh.material as THREE.MeshStandardMaterial).map;
+      const texture = map && this.readTexture(map);
+      if (texture && mesh.geometry.attributes.uv) {
+        geometry.setAttribute("uv", mesh.geometry.attributes.uv.clone());
+      }
+      if (mesh.geometry.index) geometry.setIndex(mesh.geometry.index);
+      geometry.applyMatrix4(mesh.matrixWorld);
+
+      parts.push({
+        name: mesh.name,
+        mesh: new THREE.Mesh(geometry),
+        area: this.computeSurfaceArea(geometry),
+        texture: texture && geometry.attributes.uv ? texture : undefined,
+      });
+    });
+
+    const sampleable = parts.filter((part) => part.area > 0);
+    if (sampleable.length === 0) return null;
+    this.normalizeMesh(sampleable);
+    return { kind: "mesh", parts: sampleable, options };
+  }
+
+  /**
+   * Reads a texture's pixels through a canvas, scaled down to at most
+   * MAX_TEXTURE_SIZE. Needs a DOM, so baking from Node skips textures.
+   */
+  private readTexture(map: THREE.Texture): TexturePixels | undefined {
+    const image = map.image as CanvasImageSource & {
+      width: number;
+      height: number;
+    };
+    if (typeof document === "undefined" || !image?.width) return undefined;
+    const scale = Math.min(
+      1,
+      MAX_TEXTURE_SIZE / Math.max(image.width, image.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return undefined;
+    try {
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      return {
+        image: context.getImageData(0, 0, canvas.width, canvas.height),
+        flipY: map.flipY,
+      };
+    } catch (error) {
+      // e.g. a cross-origin image
+      console.warn("Could not read texture colors:", error);
+      return undefined;
+    }
+  }
+
+  private computeSurfaceArea(geometry: THREE.BufferGeometry): number {
+    const position = geometry.attributes.position;
+    const index = geometry.index;
+    const triangleCount = (index ? index.count : position.count) / 3;
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const triangle = new THREE.Triangle(a, b, c);
+
+    let area = 0;
+    for (let i = 0; i < triangleCount; i++) {
+      const i0 = index ? index.getX(i * 3) : i * 3;
+      const i1 = index ? index.getX(i * 3 + 1) : i * 3 + 1;
+      const i2 = index ? index.getX(i * 3 + 2) : i * 3 + 2;
+      a.fromBufferAttribute(position, i0);
+      b.fromBufferAttribute(position, i1);
+      c.fromBufferAttribute(position, i2);
+      area += triangle.getArea();
+    }
+    return area;
+  }
+
+  private fromPoints(
+    points: Float32Array,
+    extras: { normals?: Float32Array; colors?: Float32Array } = {}
+  ): ModelSource | null {
+    if (points.length < 3) return null;
+    const normalized = new Float32Array(points);
+    // Scaled evenly, so normals stay as they are
+    this.normalizePoints(normalized);
+    return { kind: "points", points: normalized, ...extras };
+  }
+
+  /**
+   * Reads whitespace, comma or semicolon separated "x y z ..." rows.
+   * Headers, comments and rows with fewer than three numbers are skipped.
+   */
+  private parsePointList(text: string): Float32Array {
+    const values: number[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const fields = line.trim().split(/[\s,;]+/);
+      if (fields.length < 3) continue;
+      const x = parseFloat(fields[0]);
+      const y = parseFloat(fields[1]);
+      const z = parseFloat(fields[2]);
+      if (isNaN(x) || isNaN(y) || isNaN(z)) continue;
+      values.push(x, y, z);
+    }
+    return new Float32Array(values);
+  }
+
+  private sample(
+    source: ModelSource,
+    key: string,
+    count: number
+  ): SampledPoints {
+    const rng = createRng(this.seed, `${key}:${count}`);
+    if (source.kind === "points") {
+      return this.resamplePoints(source, count, rng);
+    }
+    const out: SampledPoints = {
+      positions: new Float32Array(count * 3),
+      normals: new Float32Array(count * 3),
+      colors: source.parts.some(hasPartColors)
+        ? new Float32Array(count * 3)
+        : undefined,
+    };
+    this.samplePointsOnSurface(source.parts, count, source.options, rng, out);
+    return out;
+  }
+
+  private normalizeMesh(parts: MeshPart[], targetSize: number = 20) {
+    const box = new THREE.Box3();
+    parts.forEach((part) => {
+      part.mesh.geometry.computeBoundingBox();
+      box.union(part.mesh.geometry.boundingBox!);
+    });
+    const size = new THREE.Vector3();
+    const center = new THREE.Vector3();
+    box.getSize(size);
+    box.getCenter(center);
+
+    const maxDim = Math.max(size.x, size.y, size.z);
+    const scale = maxDim > 0 ? targetSize / maxDim : 1;
+    parts.forEach((part) => {
+      part.mesh.geometry.translate(-center.x, -center.y, -center.z);
+      part.mesh.geometry.scale(scale, scale, scale);
+      part.area *= scale * scale;
+    });
+  }
+
+  private normalizePoints(points: Float32Array, targetSize: number = 20) {
+    const box = new THREE.Box3().setFromArray(points);
     const size = new THREE.Vector3();
+    const center = new THREE.Vector3();
     box.getSize(size);
+    box.getCenter(center);
 
     const maxDim = Math.max(size.x, size.y, size.z);
-    if (maxDim > 0) {
-      const scale = targetSize / maxDim;
-      mesh.geometry.scale(scale, scale, scale);
+    const scale = maxDim > 0 ? targetSize / maxDim : 1;
+    for (let i = 0; i < points.length; i += 3) {
+      points[i] = (points[i] - center.x) * scale;
+      points[i + 1] = (points[i + 1] - center.y) * scale;
+      points[i + 2] = (points[i + 2] - center.z) * scale;
     }
-    mesh.geometry.center();
   }
 
-  private samplePointsOnSurface(mesh: THREE.Mesh, count: number): Float32Array {
-    const sampler = new MeshSurfaceSampler(mesh).build();
-    const sampledPositions = new Float32Array(count * 3);
+  /**
+   * Spreads `count` points over the parts' surfaces. Normals and colors are
+   * written too when `out` has room for them. Colors are the vertex colors
+   * times the texture, and white for parts with neither; see SampledPoints
+   * for why they are sRGB. Textures are read as sRGB bytes already, while
+   * loaders hand vertex colors over in linear.
+   */
+  private samplePointsOnSurface(
+    parts: MeshPart[],
+    count: number,
+    options: ModelLoadOptions,
+    rng: Rng,
+    out: SampledPoints = { positions: new Float32Array(count * 3) }
+  ): Float32Array {
+    const { positions, normals, colors } = out;
     const tempPosition = new THREE.Vector3();
+    const tempNormal = new THREE.Vector3();
+    const tempColor = new THREE.Color();
+    const tempUV = new THREE.Vector2();
+    const counts = this.allocateSamples(parts, count, options);
+
+    let offset = 0;
+    parts.forEach((part, p) => {
+      if (counts[p] === 0) return;
+      const sampler = new MeshSurfaceSampler(part.mesh) as SeedableSampler;
+      sampler.setRandomGenerator(rng).build();
+      const hasColors = !!part.mesh.geometry.attributes.color;
+      const texture = colors ? part.texture : undefined;
+      for (let i = 0; i < counts[p]; i++, offset++) {
+        tempColor.setRGB(1, 1, 1);
+        sampler.sample(
+          tempPosition,
+          normals ? tempNormal : undefined,
+          colors && hasColors ? tempColor : undefined,
+          texture ? tempUV : undefined
+        );
+        if (hasColors) tempColor.convertLinearToSRGB();
+        if (texture) multiplyTexel(texture, tempUV, tempColor);
+        tempPosition.toArray(positions, offset * 3);
+        if (normals) tempNormal.toArray(normals, offset * 3);
+        if (colors) tempColor.toArray(colors, offset * 3);
+      }
+    });
+
+    return positions;
+  }
+
+  /**
+   * Splits `count` across parts by weighted surface area, using the largest
+   * remainder so the totals always add up exactly.
+   */
+  private allocateSamples(
+    parts: MeshPart[],
+    count: number,
+    options: ModelLoadOptions
+  ): number[] {
+    const weights = parts.map(
+      (part) => part.area * (options.partWeights?.[part.name] ?? 1)
+    );
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return parts.map((_, i) => (i === 0 ? count : 0));
+
+    const exact = weights.map((w) => (w / total) * count);
+    const counts = exact.map(Math.floor);
+    let remaining = count - counts.reduce((sum, c) => sum + c, 0);
+
+    exact
+      .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+      .sort((a, b) => b.fraction - a.fraction)
+      .forEach(({ i }) => {
+        if (remaining > 0) {
+          counts[i]++;
+          remaining--;
+        }
+      });
+
+    return counts;
+  }
+
+  /**
+   * Strides through a point list to hit `count` points. Larger clouds are
+   * thinned evenly; smaller ones repeat points with a little jitter so the
+   * duplicates don't stack into bright spots under additive blending.
+   */
+  private resamplePoints(
+    source: {
+      points: Float32Array;
+      normals?: Float32Array;
+      colors?: Float32Array;
+    },
+    count: number,
+    rng: Rng
+  ): SampledPoints {
+    const { points, normals, colors } = source;
+    const sourceCount = points.length / 3;
+    const result = new Float32Array(count * 3);
+    const resultNormals = normals && new Float32Array(count * 3);
+    const resultColors = colors && new Float32Array(count * 3);
+    const jitter = sourceCount < count ? 0.05 : 0;
 
     for (let i = 0; i < count; i++) {
-      sampler.sample(tempPosition);
-      sampledPositions[i * 3] = tempPosition.x;
-      sampledPositions[i * 3 + 1] = tempPosition.y;
-      sampledPositions[i * 3 + 2] = tempPosition.z;
+      const j = Math.floor((i * sourceCount) / count);
+      const repeated =
+        i > 0 && j === Math.floor(((i - 1) * sourceCount) / count);
+      const offset = repeated ? jitter : 0;
+      result[i * 3] = points[j * 3] + (rng() - 0.5) * offset;
+      result[i * 3 + 1] = points[j * 3 + 1] + (rng() - 0.5) * offset;
+      result[i * 3 + 2] = points[j * 3 + 2] + (rng() - 0.5) * offset;
+      resultNormals?.set(normals!.subarray(j * 3, j * 3 + 3), i * 3);
+      resultColors?.set(colors!.subarray(j * 3, j * 3 + 3), i * 3);
     }
 
-    return sampledPositions;
+    return { positions: result, normals: resultNormals, colors: resultColors };
   }
 }
+
+/** Linear colors, as three.js loaders return them, in sRGB. */
+function toSRGB(colors: Float32Array): Float32Array {
+  const result = new Float32Array(colors.length);
+  const color = new THREE.Color();
+  for (let i = 0; i < colors.length; i += 3) {
+    color.fromArray(colors, i).convertLinearToSRGB().toArray(result, i);
+  }
+  return result;
+}
+
+function hasPartColors(part: MeshPart): boolean {
+  return !!part.mesh.geometry.attributes.color || !!part.texture;
+}
+
+/** Multiplies `color` by the texel at `uv`, wrapping like RepeatWrapping. */
+function multiplyTexel(
+  texture: TexturePixels,
+  uv: THREE.Vector2,
+  color: THREE.Color
+) {
+  const { width, height, data } = texture.image;
+  const u = uv.x - Math.floor(uv.x);
+  let v = uv.y - Math.floor(uv.y);
+  if (texture.flipY) v = 1 - v;
+  const x = Math.min(Math.floor(u * width), width - 1);
+  const y = Math.min(Math.floor(v * height), height - 1);
+  const i = (y * width + x) * 4;
+  color.r *= data[i] / 255;
+  color.g *= data[i + 1] / 255;
+  color.b *= data[i + 2] / 255;
+}
@@ -0,0 +1,116 @@
+import * as THREE from "three";
+
+/** Most pointers the shader takes at once; extra touches are ignored. */
+export const MAX_POINTERS = 4;
+
+export interface TrackedPointer {
+  /** Normalized device coordinates. */
+  ndc: THREE.Vector2;
+  /** Set on movement; cleared once the pointer's depth is worked out again. */
+  moved: boolean;
+  /** Distance along the camera ray to where the pointer meets the cloud. */
+  depth: number;
+}
+
+// A press that moves or lasts longer than this is a drag, not a tap
+const TAP_DISTANCE = 6;
+const TAP_TIME = 300;
+
+/**
+ * Follows the hovering mouse and every finger on the canvas. Touches only
+ * count from when they land on the canvas, not on the control panel.
+ */
+export class PointerTracker {
+  private canvas: HTMLElement;
+  private onTap: (pointer: TrackedPointer) => void;
+  private pointers = new Map<number, TrackedPointer>();
+  private presses = new Map<number, { x: number; y: number; time: number }>();
+  private listeners: AbortController = new AbortController();
+
+  constructor(canvas: HTMLElement, onTap: (pointer: TrackedPointer) => void) {
+    this.canvas = canvas;
+    this.onTap = onTap;
+    const { signal } = this.listeners;
+
+    window.addEventListener(
+      "pointermove",
+      (e) => {
+        if (e.pointerType === "mouse" || this.pointers.has(e.pointerId)) {
+          this.track(e);
+        }
+      },
+      { signal }
+    );
+    canvas.addEventListener(
+      "pointerdown",
+      (e) => {
+        this.track(e);
+        if (e.isPrimary && e.button === 0) {
+          this.presses.set(e.pointerId, {
+            x: e.clientX,
+            y: e.clientY,
+            time: performance.now(),
+          });
+        }
+      },
+      { signal }
+    );
+    window.addEventListener("pointerup", (e) => this.release(e, true), {
+      signal,
+    });
+    window.addEventListener("pointercancel", (e) => this.release(e, false), {
+      signal,
+    });
+    // No related target: the mouse left the window
+    document.addEventListener(
+      "pointerout",
+      (e) => {
+        if (!e.relatedTarget) this.pointers.delete(e.pointerId);
+      },
+      { signal }
+    );
+  }
+
+  public dispose() {
+    this.listeners.abort();
+    this.pointers.clear();
+    this.presses.clear();
+  }
+
+  /** Pointers currently over the scene, at most MAX_POINTERS. */
+  public get active(): TrackedPointer[] {
+    return [...this.pointers.values()];
+  }
+
+  private track(e: PointerEvent) {
+    let pointer = this.pointers.get(e.pointerId);
+    if (!pointer) {
+      if (this.pointers.size >= MAX_POINTERS) return;
+      pointer = { ndc: new THREE.Vector2(), moved: true, depth: -1 };
+      this.pointers.set(e.pointerId, pointer);
+    }
+    const rect = this.canvas.getBoundingClientRect();
+    pointer.ndc.set(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    pointer.moved = true;
+  }
+
+  private release(e: PointerEvent, tap: boolean) {
+    const press = this.presses.get(e.pointerId);
+    this.presses.delete(e.pointerId);
+    const pointer = this.pointers.get(e.pointerId);
+    if (
+      tap &&
+      press &&
+      pointer &&
+      Math.hypot(e.clientX - press.x, e.clientY - press.y) < TAP_DISTANCE &&
+      performance.now() - press.time < TAP_TIME
+    ) {
+      this.onTap(pointer);
+    }
+    // A lifted finger stops pushing; the mouse keeps hovering
+    if (e.pointerType !== "mouse") this.pointers.delete(e.pointerId);
+  }
+}
@@ -0,0 +1,145 @@
+/** Named quality steps, best first. */
+export type QualityName = "ultra" | "high" | "medium" | "low" | "minimal";
+
+export interface QualityLevel {
+  name: QualityName;
+  /** Upper bound of the renderer's pixel ratio. */
+  pixelRatio: number;
+  /** Share of the particles that is drawn. */
+  drawFraction: number;
+  /** Costly extras, e.g. raycasting the cloud for the pointer depth. */
+  effects: boolean;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: "ultra", pixelRatio: 2, drawFraction: 1, effects: true },
+  { name: "high", pixelRatio: 1.5, drawFraction: 1, effects: true },
+  { name: "medium", pixelRatio: 1, drawFraction: 1, effects: true },
+  { name: "low", pixelRatio: 1, drawFraction: 0.6, effects: false },
+  { name: "minimal", pixelRatio: 0.75, drawFraction: 0.35, effects: false },
+];
+
+export const QUALITY_NAMES: QualityName[] = QUALITY_LEVELS.map((l) => l.name);
+
+/** Frame time percentiles (ms) over the recent window. */
+export interface FrameStats {
+  fps: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/** What the performance overlay shows. */
+export interface PerformanceStats extends FrameStats {
+  drawCalls: number;
+  particles: number;
+  drawnParticles: number;
+  quality: QualityName;
+  pixelRatio: number;
+  /** Rough bytes of GPU memory: buffers, textures and the framebuffer. */
+  gpuMemory: number;
+}
+
+// Frames kept for the percentiles, about two seconds at 60fps
+const WINDOW = 120;
+// Step down when the 90th percentile frame is slower than this (ms)...
+const SLOW_FRAME = 24;
+// ...and back up once it has been this fast for UPGRADE_DELAY (ms). Frames
+// are capped by vsync, so at 60Hz "fast" means hitting the refresh rate.
+const FAST_FRAME = 18;
+const UPGRADE_DELAY = 5000;
+// Time (ms) for a change to settle before it is judged
+const COOLDOWN = 2000;
+
+/**
+ * Watches frame times and steps quality down when frames are slow, and
+ * back up when they have been fast for a while, between `best` and `worst`.
+ */
+export class QualityGovernor {
+  private times: number[] = [];
+  private index: number;
+  private best: number = 0;
+  private worst: number = QUALITY_LEVELS.length - 1;
+  private adaptive: boolean = true;
+  private lastChange: number = 0;
+  private fastSince: number | null = null;
+  private onChange: (level: QualityLevel) => void;
+
+  constructor(onChange: (level: QualityLevel) => void) {
+    this.onChange = onChange;
+    this.index = this.best;
+  }
+
+  public get level(): QualityLevel {
+    return QUALITY_LEVELS[this.index];
+  }
+
+  /**
+   * Sets the range quality may move in. Without `adaptive`, quality stays
+   * at `best`.
+   */
+  public configure(best: QualityName, worst: QualityName, adaptive: boolean) {
+    this.best = QUALITY_NAMES.indexOf(best);
+    this.worst = Math.max(QUALITY_NAMES.indexOf(worst), this.best);
+    this.adaptive = adaptive;
+    const index = adaptive
+      ? Math.min(Math.max(this.index, this.best), this.worst)
+      : this.best;
+    this.setIndex(index, performance.now());
+  }
+
+  /** Records one frame; call once per rendered frame. */
+  public update(frameTime: number, now: number) {
+    this.times.push(frameTime);
+    if (this.times.length > WINDOW) this.times.shift();
+    if (!this.adaptive || this.times.length < WINDOW) return;
+    if (now - this.lastChange < COOLDOWN) return;
+
+    const p90 = percentile(this.times, 0.9);
+    if (p90 > SLOW_FRAME) {
+      this.fastSince = null;
+      if (this.index < this.worst) this.setIndex(this.index + 1, now);
+    } else if (p90 < FAST_FRAME) {
+      this.fastSince ??= now;
+      if (now - this.fastSince > UPGRADE_DELAY && this.index > this.best) {
+        this.setIndex(this.index - 1, now);
+      }
+    } else {
+      this.fastSince = null;
+    }
+  }
+
+  /** Forgets past frames, e.g. after a pause that would skew them. */
+  public reset() {
+    this.times = [];
+    this.fastSince = null;
+  }
+
+  public get stats(): FrameStats {
+    const average =
+      this.times.reduce((sum, t) => sum + t, 0) /
+      Math.max(this.times.length, 1);
+    return {
+      fps: average > 0 ? 1000 / average : 0,
+      p50: percentile(this.times, 0.5),
+      p95: percentile(this.times, 0.95),
+      p99: percentile(this.times, 0.99),
+    };
+  }
+
+  private setIndex(index: number, now: number) {
+    if (index === this.index) return;
+    this.index = index;
+    this.lastChange = now;
+    this.fastSince = null;
+    // Frames from before the change say nothing about the new level
+    this.times = [];
+    this.onChange(this.level);
+  }
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.floor(p * sorted.length), sorted.length - 1)];
+}
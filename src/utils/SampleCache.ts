@@ -0,0 +1,108 @@
+import type { SampledPoints } from "./ModelLoader";
+
+const DB_NAME = "particle-morpher";
+// Bumped when samples change, which drops every entry from before
+const DB_VERSION = 3;
+const STORE = "samples";
+// Oldest entries are dropped beyond this, so the cache cannot grow unbounded
+const MAX_ENTRIES = 48;
+
+interface Entry {
+  key: string;
+  points: Float32Array;
+  normals?: Float32Array;
+  colors?: Float32Array;
+  time: number;
+}
+
+/**
+ * Keeps sampled point clouds in IndexedDB between visits, so a model that
+ * was sampled before is neither parsed nor sampled again. Every failure,
+ * including browsers without IndexedDB, just means a cache miss.
+ */
+export class SampleCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  public async get(key: string): Promise<SampledPoints | null> {
+    const db = await this.open();
+    if (!db) return null;
+    try {
+      const entry = await request<Entry | undefined>(
+        db.transaction(STORE).objectStore(STORE).get(key)
+      );
+      if (!entry) return null;
+      const { points, normals, colors } = entry;
+      return { positions: points, normals, colors };
+    } catch {
+      return null;
+    }
+  }
+
+  public async set(key: string, sampled: SampledPoints) {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+      const entry: Entry = {
+        key,
+        points: sampled.positions,
+        normals: sampled.normals,
+        colors: sampled.colors,
+        time: Date.now(),
+      };
+      await request(store.put(entry));
+
+      const excess = (await request(store.count())) - MAX_ENTRIES;
+      if (excess <= 0) return;
+      const keys = await request(store.index("time").getAllKeys(null, excess));
+      keys.forEach((old) => store.delete(old));
+    } catch (error) {
+      // e.g. over the storage quota
+      console.warn("Could not cache samples:", error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+        const open = indexedDB.open(DB_NAME, DB_VERSION);
+        open.onupgradeneeded = () => {
+          if (open.result.objectStoreNames.contains(STORE)) {
+            open.result.deleteObjectStore(STORE);
+          }
+          const store = open.result.createObjectStore(STORE, {
+            keyPath: "key",
+          });
+          store.createIndex("time", "time");
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => resolve(null);
+        open.onblocked = () => resolve(null);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Hex SHA-256 of `data`, or null where Web Crypto is unavailable (pages
+ * served over plain HTTP).
+ */
+export async function hashData(data: ArrayBuffer): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,112 @@
+import * as THREE from "three";
+import { FontLoader, Font } from "three/examples/jsm/loaders/FontLoader.js";
+import helvetikerRegular from "three/examples/fonts/helvetiker_regular.typeface.json?url";
+import helvetikerBold from "three/examples/fonts/helvetiker_bold.typeface.json?url";
+import optimerRegular from "three/examples/fonts/optimer_regular.typeface.json?url";
+import optimerBold from "three/examples/fonts/optimer_bold.typeface.json?url";
+import gentilisRegular from "three/examples/fonts/gentilis_regular.typeface.json?url";
+import gentilisBold from "three/examples/fonts/gentilis_bold.typeface.json?url";
+import { ModelLoader, SampledPoints } from "./ModelLoader";
+
+export const TEXT_FONTS: { [name: string]: string } = {
+  helvetiker: helvetikerRegular,
+  "helvetiker-bold": helvetikerBold,
+  optimer: optimerRegular,
+  "optimer-bold": optimerBold,
+  gentilis: gentilisRegular,
+  "gentilis-bold": gentilisBold,
+};
+
+export type TextAlign = "left" | "center" | "right";
+
+export interface TextShapeOptions {
+  /** A key of `TEXT_FONTS`, or a URL to a typeface.json font. */
+  font: string;
+  /** Extrusion depth, relative to the glyph height. */
+  depth: number;
+  align: TextAlign;
+}
+
+export const DEFAULT_TEXT_OPTIONS: TextShapeOptions = {
+  font: "helvetiker-bold",
+  depth: 0.3,
+  align: "center",
+};
+
+export class TextShapeGenerator {
+  private fontLoader: FontLoader = new FontLoader();
+  private fonts: Map<string, Promise<Font>> = new Map();
+  private modelLoader: ModelLoader;
+
+  constructor(modelLoader: ModelLoader) {
+    this.modelLoader = modelLoader;
+  }
+
+  /**
+   * Builds extruded text and samples it through the model loader, so it is
+   * normalized and resampled exactly like a loaded model. Newlines start a
+   * new line of text.
+   */
+  public async generate(
+    text: string,
+    key: string,
+    particleCount: number,
+    options: TextShapeOptions = DEFAULT_TEXT_OPTIONS
+  ): Promise<SampledPoints | null> {
+    const lines = text.split(/\r?\n/);
+    if (!text.trim()) return null;
+
+    let font: Font;
+    try {
+      font = await this.loadFont(options.font);
+    } catch (error) {
+      console.error(`Error loading font ${options.font}:`, error);
+      return null;
+    }
+
+    const size = 1;
+    const lineHeight = size * 1.3;
+    const group = new THREE.Group();
+    const lineMeshes: { mesh: THREE.Mesh; width: number }[] = [];
+
+    lines.forEach((line, i) => {
+      const shapes = font.generateShapes(line, size);
+      if (shapes.length === 0) return;
+
+      const geometry = new THREE.ExtrudeGeometry(shapes, {
+        depth: size * options.depth,
+        bevelEnabled: false,
+        curveSegments: 6,
+      });
+      geometry.computeBoundingBox();
+      const box = geometry.boundingBox!;
+
+      const mesh = new THREE.Mesh(geometry);
+      mesh.position.set(-box.min.x, -i * lineHeight, 0);
+      lineMeshes.push({ mesh, width: box.max.x - box.min.x });
+      group.add(mesh);
+    });
+
+    const maxWidth = Math.max(0, ...lineMeshes.map((l) => l.width));
+    lineMeshes.forEach(({ mesh, width }) => {
+      if (options.align === "center") mesh.position.x += (maxWidth - width) / 2;
+      if (options.align === "right") mesh.position.x += maxWidth - width;
+    });
+
+    const sampled = this.modelLoader.loadObject(group, key, particleCount);
+    lineMeshes.forEach(({ mesh }) => mesh.geometry.dispose());
+    return sampled;
+  }
+
+  private loadFont(font: string): Promise<Font> {
+    const url = TEXT_FONTS[font] ?? font;
+    let pending = this.fonts.get(url);
+    if (!pending) {
+      pending = this.fontLoader.loadAsync(url);
+      this.fonts.set(url, pending);
+      // Allow a retry if the font failed to load
+      pending.catch(() => this.fonts.delete(url));
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,59 @@
+import * as THREE from "three";
+
+/**
+ * What colors the particles: one color, a gradient by height or by distance
+ * from the center, a gradient by speed while morphing, or the shape's own
+ * colors (image pixels, mesh vertex colors and textures) where it has them.
+ */
+export type ColorMode = "solid" | "height" | "distance" | "velocity" | "shape";
+
+// Order matches the uColorMode uniform in the vertex shader
+export const COLOR_MODES: ColorMode[] = [
+  "solid",
+  "height",
+  "distance",
+  "velocity",
+  "shape",
+];
+
+/** CPU mirror of the shader's gradient around `base`, `t` from 0 to 1. */
+export function gradientColor(
+  t: number,
+  base: THREE.Color,
+  out: THREE.Color
+): THREE.Color {
+  t = Math.min(Math.max(t, 0), 1);
+  const pale = base.clone().lerp(new THREE.Color(1, 1, 1), 0.6);
+  return t < 0.5
+    ? out
+        .copy(base)
+        .multiplyScalar(0.25)
+        .lerp(base, t * 2)
+    : out.copy(base).lerp(pale, t * 2 - 1);
+}
+
+/**
+ * Colors of `positions` as the shader shows them at rest, or null when the
+ * mode gives every particle `base`. Velocity is zero at rest, so it is too.
+ */
+export function shadeColors(
+  mode: ColorMode,
+  positions: Float32Array,
+  base: THREE.Color,
+  bounds: THREE.Sphere
+): Float32Array | null {
+  if (mode !== "height" && mode !== "distance") return null;
+  const colors = new Float32Array(positions.length);
+  const radius = Math.max(bounds.radius, 0.001);
+  const point = new THREE.Vector3();
+  const color = new THREE.Color();
+  for (let i = 0; i < positions.length; i += 3) {
+    point.fromArray(positions, i);
+    const t =
+      mode === "height"
+        ? (point.y - bounds.center.y) / (2 * radius) + 0.5
+        : point.distanceTo(bounds.center) / radius;
+    gradientColor(t, base, color).toArray(colors, i);
+  }
+  return colors;
+}
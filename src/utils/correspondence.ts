@@ -0,0 +1,163 @@
+/**
+ * How particles are paired with target points during a morph.
+ * - random: keep sample order (every morph is a full scramble)
+ * - spatial: pair points by their rank along a Z-order curve
+ * - optimal: spatial pairing refined by local swaps that shorten paths
+ * - height: pair points bottom to top
+ */
+export type MatchingMethod = "random" | "spatial" | "optimal" | "height";
+
+export const MATCHING_METHODS: MatchingMethod[] = [
+  "random",
+  "spatial",
+  "optimal",
+  "height",
+];
+
+/**
+ * Returns `perm` such that particle `i` should travel to target point
+ * `perm[i]`. Both clouds must hold the same number of points.
+ */
+export function computeCorrespondence(
+  source: Float32Array,
+  target: Float32Array,
+  method: MatchingMethod
+): Uint32Array {
+  const count = Math.min(source.length, target.length) / 3;
+
+  switch (method) {
+    case "height":
+      return matchByRank(
+        axisKeys(source, count, 1),
+        axisKeys(target, count, 1)
+      );
+    case "spatial":
+      return matchByRank(mortonKeys(source, count), mortonKeys(target, count));
+    case "optimal": {
+      const sourceKeys = mortonKeys(source, count);
+      const perm = matchByRank(sourceKeys, mortonKeys(target, count));
+      refineBySwaps(source, target, perm, argsort(sourceKeys));
+      return perm;
+    }
+    default: {
+      const perm = new Uint32Array(count);
+      for (let i = 0; i < count; i++) perm[i] = i;
+      return perm;
+    }
+  }
+}
+
+/** Reorders an xyz (or rgb) array so entry `i` comes from `perm[i]`. */
+export function applyCorrespondence(
+  values: Float32Array,
+  perm: Uint32Array
+): Float32Array {
+  const result = new Float32Array(values.length);
+  for (let i = 0; i < perm.length; i++) {
+    const j = perm[i];
+    result[i * 3] = values[j * 3];
+    result[i * 3 + 1] = values[j * 3 + 1];
+    result[i * 3 + 2] = values[j * 3 + 2];
+  }
+  return result;
+}
+
+function matchByRank(
+  sourceKeys: Float64Array,
+  targetKeys: Float64Array
+): Uint32Array {
+  const sourceOrder = argsort(sourceKeys);
+  const targetOrder = argsort(targetKeys);
+  const perm = new Uint32Array(sourceKeys.length);
+  for (let k = 0; k < sourceOrder.length; k++) {
+    perm[sourceOrder[k]] = targetOrder[k];
+  }
+  return perm;
+}
+
+function argsort(keys: Float64Array): Uint32Array {
+  const order = new Uint32Array(keys.length);
+  for (let i = 0; i < order.length; i++) order[i] = i;
+  return order.sort((a, b) => keys[a] - keys[b]);
+}
+
+function axisKeys(
+  points: Float32Array,
+  count: number,
+  axis: number
+): Float64Array {
+  const keys = new Float64Array(count);
+  for (let i = 0; i < count; i++) keys[i] = points[i * 3 + axis];
+  return keys;
+}
+
+/**
+ * Z-order keys within each cloud's own bounding box, so two shapes of
+ * different size or offset still line up part for part.
+ */
+function mortonKeys(points: Float32Array, count: number): Float64Array {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    for (let a = 0; a < 3; a++) {
+      const v = points[i * 3 + a];
+      if (v < min[a]) min[a] = v;
+      if (v > max[a]) max[a] = v;
+    }
+  }
+
+  const keys = new Float64Array(count);
+  const cells = 1023;
+  for (let i = 0; i < count; i++) {
+    let key = 0;
+    const q = [0, 0, 0];
+    for (let a = 0; a < 3; a++) {
+      const range = max[a] - min[a] || 1;
+      q[a] = Math.floor(((points[i * 3 + a] - min[a]) / range) * cells);
+    }
+    // Interleave 10 bits per axis, y first so shapes build up vertically
+    for (let bit = 9; bit >= 0; bit--) {
+      key = key * 8 + ((q[1] >> bit) & 1) * 4;
+      key += ((q[0] >> bit) & 1) * 2 + ((q[2] >> bit) & 1);
+    }
+    keys[i] = key;
+  }
+  return keys;
+}
+
+/**
+ * Approximate optimal assignment: swap the targets of particles that are
+ * close along the curve whenever that shortens their combined travel.
+ */
+function refineBySwaps(
+  source: Float32Array,
+  target: Float32Array,
+  perm: Uint32Array,
+  order: Uint32Array,
+  passes: number = 6,
+  window: number = 32
+) {
+  const count = perm.length;
+  const dist = (i: number, t: number) => {
+    const dx = source[i * 3] - target[t * 3];
+    const dy = source[i * 3 + 1] - target[t * 3 + 1];
+    const dz = source[i * 3 + 2] - target[t * 3 + 2];
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  for (let pass = 0; pass < passes; pass++) {
+    // Vary the neighbour offset between passes to reach further
+    const offset = 1 + ((pass * 7) % window);
+    for (let k = 0; k + offset < count; k++) {
+      const i = order[k];
+      const j = order[k + offset];
+      const current = dist(i, perm[i]) + dist(j, perm[j]);
+      const swapped = dist(i, perm[j]) + dist(j, perm[i]);
+      if (swapped < current) {
+        const t = perm[i];
+        perm[i] = perm[j];
+        perm[j] = t;
+      }
+    }
+  }
+}
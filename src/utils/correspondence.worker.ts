@@ -0,0 +1,14 @@
+import { computeCorrespondence, MatchingMethod } from "./correspondence";
+
+interface CorrespondenceRequest {
+  id: number;
+  source: Float32Array;
+  target: Float32Array;
+  method: MatchingMethod;
+}
+
+self.addEventListener("message", (e: MessageEvent<CorrespondenceRequest>) => {
+  const { id, source, target, method } = e.data;
+  const perm = computeCorrespondence(source, target, method);
+  self.postMessage({ id, perm }, { transfer: [perm.buffer] });
+});
@@ -0,0 +1,316 @@
+import * as THREE from "three";
+import { gsap } from "gsap";
+
+/** Resolution of the baked ease curve sampled by the vertex shader. */
+export const EASE_SAMPLES = 256;
+
+export const MORPH_EASES = [
+  "none",
+  "power1.inOut",
+  "power2.inOut",
+  "power3.inOut",
+  "power4.inOut",
+  "expo.inOut",
+  "expo.out",
+  "sine.inOut",
+  "circ.inOut",
+  "back.inOut",
+  "back.out",
+  "elastic.out",
+  "bounce.out",
+];
+
+/**
+ * Bakes a GSAP ease into a 1D float texture, so any ease name GSAP accepts
+ * can be evaluated per particle on the GPU.
+ */
+export function createEaseTexture(ease: string): THREE.DataTexture {
+  const texture = new THREE.DataTexture(
+    new Float32Array(EASE_SAMPLES),
+    EASE_SAMPLES,
+    1,
+    THREE.RedFormat,
+    THREE.FloatType
+  );
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  updateEaseTexture(texture, ease);
+  return texture;
+}
+
+export function updateEaseTexture(texture: THREE.DataTexture, ease: string) {
+  const easeFn = gsap.parseEase(ease) || gsap.parseEase("none");
+  const data = texture.image.data as Float32Array;
+  for (let i = 0; i < EASE_SAMPLES; i++) {
+    data[i] = easeFn(i / (EASE_SAMPLES - 1));
+  }
+  texture.needsUpdate = true;
+}
+
+/** Reads the baked curve exactly as the vertex shader does. */
+export function sampleEaseTexture(
+  texture: THREE.DataTexture,
+  t: number
+): number {
+  const data = texture.image.data as Float32Array;
+  const x = Math.min(Math.max(t, 0), 1) * (EASE_SAMPLES - 1);
+  const i = Math.floor(x);
+  const next = Math.min(i + 1, EASE_SAMPLES - 1);
+  return data[i] + (data[next] - data[i]) * (x - i);
+}
+
+/**
+ * How particles travel: what orders their start times, and the path they
+ * take. Order matches the uTransition uniform in the vertex shader.
+ */
+export type TransitionStyle =
+  | "stagger"
+  | "sweep"
+  | "radial"
+  | "explode"
+  | "curl"
+  | "dissolve";
+
+export const TRANSITION_STYLES: TransitionStyle[] = [
+  "stagger",
+  "sweep",
+  "radial",
+  "explode",
+  "curl",
+  "dissolve",
+];
+
+export type MorphAxis = "x" | "y" | "z";
+
+export const MORPH_AXES: MorphAxis[] = ["x", "y", "z"];
+
+export interface Transition {
+  style: TransitionStyle;
+  /** Share of the morph that start times are spread over, 0 to 1. */
+  stagger: number;
+  /** Direction a sweep builds up in. */
+  axis: MorphAxis;
+  /** Frequency of the curl noise field (curl, dissolve). */
+  noiseScale: number;
+  /** How far particles stray from the straight path (explode, curl, dissolve). */
+  spread: number;
+}
+
+// Shapes are fitted to this size (see fitToSize), which sweeps and radial
+// delays are measured against
+const SHAPE_SIZE = 20;
+// Share of a sweep or radial delay that is random, to soften the front
+const DELAY_JITTER = 0.1;
+
+/** Start-time order of a particle, 0 to 1, from its target position. */
+export function transitionDelay(
+  transition: Transition,
+  random: number,
+  x: number,
+  y: number,
+  z: number
+): number {
+  let order = random;
+  if (transition.style === "sweep") {
+    const along = { x, y, z }[transition.axis];
+    order = along / SHAPE_SIZE + 0.5;
+  } else if (transition.style === "radial") {
+    order = Math.sqrt(x * x + y * y + z * z) / (SHAPE_SIZE * 0.5);
+  } else {
+    return random;
+  }
+  order = order + (random - order) * DELAY_JITTER;
+  return Math.min(Math.max(order, 0), 1);
+}
+
+/**
+ * A divergence-free field, the curl of (sin y cos z, sin z cos x,
+ * sin x cos y), written into `out`. Mirrors curlNoise in the shader.
+ */
+export function curlNoise(x: number, y: number, z: number, out: number[]) {
+  const sx = Math.sin(x);
+  const sy = Math.sin(y);
+  const sz = Math.sin(z);
+  const cx = Math.cos(x);
+  const cy = Math.cos(y);
+  const cz = Math.cos(z);
+  out[0] = -(sx * sy + cz * cx);
+  out[1] = -(sy * sz + cx * cy);
+  out[2] = -(sz * sx + cy * cz);
+}
+
+/**
+ * Per-particle progress, mirroring the vertex shader: each particle starts
+ * after a delay of `order * stagger` and finishes by `progress = 1`.
+ */
+export function localProgress(
+  progress: number,
+  order: number,
+  stagger: number
+): number {
+  const t = (progress - order * stagger) / Math.max(1 - stagger, 0.0001);
+  return Math.min(Math.max(t, 0), 1);
+}
+
+/** Everything the vertex shader uses to place particles mid-morph. */
+export interface MorphState {
+  /** Where particles set off from (aStart) and go to (position). */
+  start: Float32Array;
+  target: Float32Array;
+  randoms: Float32Array;
+  progress: number;
+  ease: THREE.DataTexture;
+  transition: Transition;
+}
+
+/** Eased progress of every particle, as the shader computes it. */
+function particleProgress(state: MorphState): Float32Array {
+  const { target, randoms, progress, ease, transition } = state;
+  const result = new Float32Array(randoms.length);
+  for (let i = 0; i < randoms.length; i++) {
+    const order = transitionDelay(
+      transition,
+      randoms[i],
+      target[i * 3],
+      target[i * 3 + 1],
+      target[i * 3 + 2]
+    );
+    result[i] = sampleEaseTexture(
+      ease,
+      localProgress(progress, order, transition.stagger)
+    );
+  }
+  return result;
+}
+
+/**
+ * CPU copy of the shader's positions, for when the current particle
+ * positions are needed, e.g. to start a new morph from them.
+ */
+export function interpolatePositions(state: MorphState): Float32Array {
+  const { start, target, randoms, progress, transition } = state;
+  const result = new Float32Array(target.length);
+  if (progress >= 1) {
+    result.set(target);
+    return result;
+  }
+
+  const eased = particleProgress(state);
+  const { style, noiseScale, spread } = transition;
+  const noise = [0, 0, 0];
+  const p = [0, 0, 0];
+  for (let i = 0; i < randoms.length; i++) {
+    const f = eased[i];
+    const k = i * 3;
+    for (let a = 0; a < 3; a++) {
+      p[a] = start[k + a] + (target[k + a] - start[k + a]) * f;
+    }
+
+    if (style === "explode") {
+      // Quadratic curve through a point flung out from the midpoint
+      const mx = (start[k] + target[k]) * 0.5;
+      const my = (start[k + 1] + target[k + 1]) * 0.5;
+      const mz = (start[k + 2] + target[k + 2]) * 0.5;
+      const length = Math.sqrt(mx * mx + my * my + mz * mz);
+      const reach = spread * (0.5 + randoms[i]);
+      const control =
+        length > 0.001
+          ? [
+              mx + (mx / length) * reach,
+              my + (my / length) * reach,
+              mz + (mz / length) * reach,
+            ]
+          : [mx, my + reach, mz];
+      for (let a = 0; a < 3; a++) {
+        p[a] =
+          (1 - f) * (1 - f) * start[k + a] +
+          2 * (1 - f) * f * control[a] +
+          f * f * target[k + a];
+      }
+    } else if (style === "curl") {
+      // Bends the straight path along the field, most in the middle
+      curlNoise(p[0] * noiseScale, p[1] * noiseScale, p[2] * noiseScale, noise);
+      const bend = Math.sin(Math.PI * f) * spread * 0.5;
+      for (let a = 0; a < 3; a++) p[a] += noise[a] * bend;
+    } else if (style === "dissolve") {
+      // Drift away as dust for the first half, then gather on the target
+      curlNoise(
+        start[k] * noiseScale,
+        start[k + 1] * noiseScale,
+        start[k + 2] * noiseScale,
+        noise
+      );
+      noise[1] -= 1;
+      const drift = spread * (0.5 + randoms[i]);
+      for (let a = 0; a < 3; a++) {
+        const dust = start[k + a] + noise[a] * drift;
+        p[a] =
+          f < 0.5
+            ? start[k + a] + (dust - start[k + a]) * f * 2
+            : dust + (target[k + a] - dust) * (f - 0.5) * 2;
+      }
+    }
+    result[k] = p[0];
+    result[k + 1] = p[1];
+    result[k + 2] = p[2];
+  }
+  return result;
+}
+
+/** Current colors: a straight blend, timed like the positions. */
+export function interpolateColors(
+  state: MorphState,
+  from: Float32Array,
+  to: Float32Array
+): Float32Array {
+  const result = new Float32Array(to.length);
+  if (state.progress >= 1) {
+    result.set(to);
+    return result;
+  }
+
+  const eased = particleProgress(state);
+  for (let i = 0; i < eased.length; i++) {
+    for (let a = 0; a < 3; a++) {
+      const k = i * 3 + a;
+      result[k] = from[k] + (to[k] - from[k]) * eased[i];
+    }
+  }
+  return result;
+}
+
+/** Current normals: blended like the colors, then renormalized. */
+export function interpolateNormals(
+  state: MorphState,
+  from: Float32Array,
+  to: Float32Array
+): Float32Array {
+  const result = interpolateColors(state, from, to);
+  normalize(result);
+  return result;
+}
+
+/**
+ * Normals pointing away from the center, for shapes without sampled ones.
+ * Close enough for round shapes, and lit mode still reads their form.
+ */
+export function radialNormals(positions: Float32Array): Float32Array {
+  const result = new Float32Array(positions);
+  normalize(result);
+  return result;
+}
+
+// Scales each vector to unit length; zero vectors point up
+function normalize(vectors: Float32Array) {
+  for (let i = 0; i < vectors.length; i += 3) {
+    const length = Math.hypot(vectors[i], vectors[i + 1], vectors[i + 2]);
+    if (length > 1e-6) {
+      vectors[i] /= length;
+      vectors[i + 1] /= length;
+      vectors[i + 2] /= length;
+    } else {
+      vectors[i] = vectors[i + 2] = 0;
+      vectors[i + 1] = 1;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Binary point cloud bundles, baked ahead of time (`npm run bake`) so the
+ * page loads ready-made samples instead of parsing and sampling a mesh.
+ *
+ * Layout, little-endian:
+ *   header   "PMPB", uint16 version, uint16 flags, uint32 count, uint32 seed,
+ *            float32 min x/y/z, float32 max x/y/z (40 bytes)
+ *   position uint16 x/y/z per point, quantized within the bounds
+ *   normal   int8 x/y/z per point, if flags & 1
+ *   color    uint8 r/g/b per point, if flags & 2
+ */
+
+/** Bump on layout changes; older versions must stay readable. */
+export const BUNDLE_VERSION = 1;
+
+export const BUNDLE_EXTENSION = ".pmb";
+
+const MAGIC = "PMPB";
+const HEADER_SIZE = 40;
+const HAS_NORMALS = 1;
+const HAS_COLORS = 2;
+const POSITION_STEPS = 65535;
+
+export interface PointBundle {
+  count: number;
+  /** Seed the points were sampled with. */
+  seed: number;
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+  positions: Float32Array;
+  normals?: Float32Array;
+  colors?: Float32Array;
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+export function isPointBundle(data: ArrayBuffer): boolean {
+  return (
+    data.byteLength >= HEADER_SIZE &&
+    new TextDecoder().decode(data.slice(0, 4)) === MAGIC
+  );
+}
+
+export function encodePointBundle(
+  bundle: Omit<PointBundle, "count" | "bounds">
+): ArrayBuffer {
+  const { positions, normals, colors } = bundle;
+  const count = positions.length / 3;
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  if (count === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  const size =
+    HEADER_SIZE +
+    count * 6 +
+    (normals ? count * 3 : 0) +
+    (colors ? count * 3 : 0);
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  for (let i = 0; i < 4; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint16(4, BUNDLE_VERSION, true);
+  view.setUint16(
+    6,
+    (normals ? HAS_NORMALS : 0) | (colors ? HAS_COLORS : 0),
+    true
+  );
+  view.setUint32(8, count, true);
+  view.setUint32(12, bundle.seed, true);
+  for (let a = 0; a < 3; a++) {
+    view.setFloat32(16 + a * 4, min[a], true);
+    view.setFloat32(28 + a * 4, max[a], true);
+  }
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < positions.length; i++, offset += 2) {
+    const a = i % 3;
+    const extent = max[a] - min[a];
+    const t = extent > 0 ? (positions[i] - min[a]) / extent : 0;
+    view.setUint16(offset, Math.round(t * POSITION_STEPS), true);
+  }
+  if (normals) {
+    for (let i = 0; i < normals.length; i++, offset++) {
+      const n = Math.min(Math.max(normals[i], -1), 1);
+      view.setInt8(offset, Math.round(n * 127));
+    }
+  }
+  if (colors) {
+    for (let i = 0; i < colors.length; i++, offset++) {
+      const c = Math.min(Math.max(colors[i], 0), 1);
+      view.setUint8(offset, Math.round(c * 255));
+    }
+  }
+  return buffer;
+}
+
+export function decodePointBundle(data: ArrayBuffer): PointBundle {
+  if (!isPointBundle(data)) {
+    throw new BundleError("Not a point cloud bundle");
+  }
+  const view = new DataView(data);
+  const version = view.getUint16(4, true);
+  if (version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `Bundle version ${version} is newer than this viewer (${BUNDLE_VERSION})`
+    );
+  }
+  const flags = view.getUint16(6, true);
+  const count = view.getUint32(8, true);
+  const seed = view.getUint32(12, true);
+  const min: [number, number, number] = [0, 0, 0];
+  const max: [number, number, number] = [0, 0, 0];
+  for (let a = 0; a < 3; a++) {
+    min[a] = view.getFloat32(16 + a * 4, true);
+    max[a] = view.getFloat32(28 + a * 4, true);
+  }
+
+  const expected =
+    HEADER_SIZE +
+    count * 6 +
+    (flags & HAS_NORMALS ? count * 3 : 0) +
+    (flags & HAS_COLORS ? count * 3 : 0);
+  if (data.byteLength < expected) {
+    throw new BundleError(
+      `Bundle is truncated: ${data.byteLength} of ${expected} bytes`
+    );
+  }
+
+  const positions = new Float32Array(count * 3);
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < positions.length; i++, offset += 2) {
+    const a = i % 3;
+    const t = view.getUint16(offset, true) / POSITION_STEPS;
+    positions[i] = min[a] + t * (max[a] - min[a]);
+  }
+  const bundle: PointBundle = {
+    count,
+    seed,
+    bounds: { min, max },
+    positions,
+  };
+  if (flags & HAS_NORMALS) {
+    bundle.normals = new Float32Array(count * 3);
+    for (let i = 0; i < bundle.normals.length; i++, offset++) {
+      bundle.normals[i] = Math.max(view.getInt8(offset) / 127, -1);
+    }
+  }
+  if (flags & HAS_COLORS) {
+    bundle.colors = new Float32Array(count * 3);
+    for (let i = 0; i < bundle.colors.length; i++, offset++) {
+      bundle.colors[i] = view.getUint8(offset) / 255;
+    }
+  }
+  return bundle;
+}
@@ -0,0 +1,115 @@
+/** File formats a point cloud can be saved as. */
+export type PointCloudFormat = "ply" | "ply-binary" | "xyz" | "json";
+
+export const POINT_CLOUD_FORMATS: PointCloudFormat[] = [
+  "ply",
+  "ply-binary",
+  "xyz",
+  "json",
+];
+
+export const POINT_CLOUD_EXTENSIONS: { [F in PointCloudFormat]: string } = {
+  ply: "ply",
+  "ply-binary": "ply",
+  xyz: "xyz",
+  json: "json",
+};
+
+export interface PointCloud {
+  /** x, y, z per point. */
+  positions: Float32Array;
+  /** r, g, b per point, 0 to 1; left out when points have no own color. */
+  colors?: Float32Array;
+}
+
+/** Encodes `cloud` as a file, ready for `downloadBlob`. */
+export function encodePointCloud(
+  cloud: PointCloud,
+  format: PointCloudFormat
+): Blob {
+  switch (format) {
+    case "ply":
+      return new Blob([plyHeader(cloud, "ascii"), textRows(cloud)], {
+        type: "text/plain",
+      });
+    case "ply-binary":
+      return new Blob(
+        [plyHeader(cloud, "binary_little_endian"), plyBinary(cloud)],
+        { type: "application/octet-stream" }
+      );
+    case "xyz":
+      return new Blob([textRows(cloud)], { type: "text/plain" });
+    case "json":
+      return new Blob([json(cloud)], { type: "application/json" });
+  }
+}
+
+function plyHeader(cloud: PointCloud, encoding: string): string {
+  const lines = [
+    "ply",
+    `format ${encoding} 1.0`,
+    "comment particle-morpher point cloud",
+    `element vertex ${cloud.positions.length / 3}`,
+    "property float x",
+    "property float y",
+    "property float z",
+  ];
+  if (cloud.colors) {
+    lines.push(
+      "property uchar red",
+      "property uchar green",
+      "property uchar blue"
+    );
+  }
+  lines.push("end_header", "");
+  return lines.join("\n");
+}
+
+function plyBinary({ positions, colors }: PointCloud): ArrayBuffer {
+  const stride = colors ? 15 : 12;
+  const count = positions.length / 3;
+  const buffer = new ArrayBuffer(count * stride);
+  const view = new DataView(buffer);
+  for (let i = 0; i < count; i++) {
+    const offset = i * stride;
+    for (let a = 0; a < 3; a++) {
+      view.setFloat32(offset + a * 4, positions[i * 3 + a], true);
+      if (colors) view.setUint8(offset + 12 + a, byte(colors[i * 3 + a]));
+    }
+  }
+  return buffer;
+}
+
+// One point per line: x y z, followed by r g b (0 to 255) when colored.
+// The body of an ASCII PLY file is the same.
+function textRows({ positions, colors }: PointCloud): string {
+  const lines: string[] = [];
+  for (let i = 0; i < positions.length; i += 3) {
+    const values = [positions[i], positions[i + 1], positions[i + 2]].map(
+      round
+    );
+    if (colors) {
+      values.push(byte(colors[i]), byte(colors[i + 1]), byte(colors[i + 2]));
+    }
+    lines.push(values.join(" "));
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Flat arrays, as BufferAttribute arrays are laid out
+function json({ positions, colors }: PointCloud): string {
+  return JSON.stringify({
+    count: positions.length / 3,
+    positions: Array.from(positions, round),
+    ...(colors ? { colors: Array.from(colors, round) } : {}),
+  });
+}
+
+// Float32 holds about 7 significant digits; more is only noise in text
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+function byte(value: number): number {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+}
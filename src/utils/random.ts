@@ -0,0 +1,32 @@
+/** Returns a float in [0, 1), like `Math.random`. */
+export type Rng = () => number;
+
+/**
+ * Seeded PRNG (mulberry32). The salt gives each consumer its own stream, so
+ * one shape's samples never depend on what else was sampled, or in which
+ * order, under the same seed.
+ */
+export function createRng(seed: number, salt: string = ""): Rng {
+  let state = hashString(salt, seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A random seed for the UI's shuffle button. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
+
+// FNV-1a, starting from the seed
+function hashString(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
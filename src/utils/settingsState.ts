@@ -0,0 +1,195 @@
+import * as THREE from "three";
+import {
+  ParticleSettings,
+  MORPH_POLICIES,
+  INTERACTION_MODES,
+  SHADING_MODES,
+} from "../managers/UIManager";
+import { AUDIO_BANDS } from "./AudioAnalyzer";
+import { MATCHING_METHODS } from "./correspondence";
+import { MORPH_EASES, MORPH_AXES, TRANSITION_STYLES } from "./gpuMorph";
+import { QUALITY_NAMES } from "./QualityGovernor";
+import { COLOR_MODES } from "./colorModes";
+
+/** Bump on breaking changes, and migrate older states in `parseState`. */
+export const STATE_VERSION = 1;
+
+/**
+ * The look of the scene: settings plus the shape on screen. Camera
+ * keyframes are not part of it; they stay in the browser that saved them.
+ */
+export interface SavedState {
+  settings: Partial<ParticleSettings>;
+  shape?: string;
+}
+
+export class StateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StateError";
+  }
+}
+
+type Field = (value: unknown) => unknown;
+
+const number =
+  (min: number, max: number): Field =>
+  (value) =>
+    typeof value === "number" && value >= min && value <= max
+      ? value
+      : undefined;
+
+const integer =
+  (min: number, max: number): Field =>
+  (value) =>
+    Number.isInteger(value) &&
+    (value as number) >= min &&
+    (value as number) <= max
+      ? value
+      : undefined;
+
+const boolean: Field = (value) =>
+  typeof value === "boolean" ? value : undefined;
+
+const oneOf =
+  (options: readonly string[]): Field =>
+  (value) =>
+    typeof value === "string" && options.includes(value) ? value : undefined;
+
+const color: Field = (value) =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+    ? new THREE.Color(value)
+    : undefined;
+
+// Ranges match the control panel, so a shared state can always be shown there
+const FIELDS: { [K in keyof ParticleSettings]: Field } = {
+  particleCount: integer(5000, 150000),
+  particleSize: number(0.5, 4),
+  animationSpeed: number(0.1, 3),
+  autoRotate: boolean,
+  morphDuration: number(0.1, 30),
+  currentColor: color,
+  autoMorph: boolean,
+  autoMorphDuration: number(500, 600000),
+  interactionRadius: number(1, 15),
+  interactionStrength: number(1, 40),
+  morphMatching: oneOf(MATCHING_METHODS),
+  morphEase: oneOf(MORPH_EASES),
+  morphStagger: number(0, 0.8),
+  morphPolicy: oneOf(MORPH_POLICIES),
+  morphTransition: oneOf(TRANSITION_STYLES),
+  morphAxis: oneOf(MORPH_AXES),
+  morphNoiseScale: number(0.02, 1),
+  morphSpread: number(0, 40),
+  autoMorphShuffle: boolean,
+  colorMode: oneOf(COLOR_MODES),
+  sizeVariance: number(0, 1),
+  sizeAttenuation: boolean,
+  particleSoftness: number(0, 1),
+  shading: oneOf(SHADING_MODES),
+  lightAzimuth: number(-180, 180),
+  lightElevation: number(-90, 90),
+  rimStrength: number(0, 2),
+  rotationSpeed: number(0, 10),
+  interaction: boolean,
+  interactionMode: oneOf(INTERACTION_MODES),
+  audioSize: oneOf(AUDIO_BANDS),
+  audioStrength: oneOf(AUDIO_BANDS),
+  audioDisplacement: oneOf(AUDIO_BANDS),
+  audioColor: oneOf(AUDIO_BANDS),
+  audioBeat: oneOf(AUDIO_BANDS),
+  audioSensitivity: number(0, 3),
+  bloom: boolean,
+  bloomStrength: number(0, 3),
+  bloomRadius: number(0, 1),
+  bloomThreshold: number(0, 1),
+  trails: boolean,
+  trailLength: number(0.5, 0.97),
+  depthOfField: boolean,
+  dofAperture: number(0, 0.3),
+  dofMaxBlur: number(0, 6),
+  adaptiveQuality: boolean,
+  qualityBest: oneOf(QUALITY_NAMES),
+  qualityWorst: oneOf(QUALITY_NAMES),
+  showStats: boolean,
+  // Stored as a uint32 in bundles
+  seed: integer(0, 0xffffffff),
+};
+
+/** Plain JSON for the URL, localStorage and exported files. */
+export function serializeState(
+  settings: ParticleSettings,
+  shape: string
+): object {
+  const serialized: { [key: string]: unknown } = {};
+  (Object.keys(FIELDS) as (keyof ParticleSettings)[]).forEach((key) => {
+    const value = settings[key];
+    serialized[key] =
+      value instanceof THREE.Color ? `#${value.getHexString()}` : value;
+  });
+  return { version: STATE_VERSION, settings: serialized, shape };
+}
+
+/**
+ * Validates serialized state. Missing settings are left out, so they keep
+ * their defaults, but any present value that is out of range or of the
+ * wrong type rejects the whole state.
+ */
+export function parseState(data: unknown): SavedState {
+  if (typeof data !== "object" || data === null) {
+    throw new StateError("State must be an object");
+  }
+  const { version, settings, shape } = data as { [key: string]: unknown };
+
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new StateError("State has no version");
+  }
+  if (version > STATE_VERSION) {
+    throw new StateError(`State version ${version} is newer than supported`);
+  }
+  if (typeof settings !== "object" || settings === null) {
+    throw new StateError("State has no settings");
+  }
+  if (shape !== undefined && typeof shape !== "string") {
+    throw new StateError("State shape must be a string");
+  }
+
+  const parsed: { [key: string]: unknown } = {};
+  Object.entries(settings).forEach(([key, value]) => {
+    const field = FIELDS[key as keyof ParticleSettings];
+    // Unknown keys are ignored, for forwards-compatible presets
+    if (!field) return;
+    const result = field(value);
+    if (result === undefined) {
+      throw new StateError(
+        `Invalid value for ${key}: ${JSON.stringify(value)}`
+      );
+    }
+    parsed[key] = result;
+  });
+
+  return { settings: parsed as Partial<ParticleSettings>, shape };
+}
+
+/** URL-safe base64 of the JSON, for the location hash. */
+export function encodeState(state: object): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeState(encoded: string): SavedState {
+  let json: unknown;
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new StateError("State is not valid encoded JSON");
+  }
+  return parseState(json);
+}
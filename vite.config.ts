@@ -1,6 +1,31 @@
-import { defineConfig } from "vite";
+import { defineConfig, UserConfig } from "vite";
 
-export default defineConfig({
+// `vite build --mode lib`: src/index.ts as an ES module, for other bundlers
+const libraryConfig: UserConfig = {
+  build: {
+    outDir: "dist-lib",
+    sourcemap: true,
+    lib: {
+      entry: "src/index.ts",
+      formats: ["es"],
+      fileName: "particle-morpher",
+    },
+    rollupOptions: {
+      // Shared with the host page rather than bundled
+      external: [/^three($|\/)/, /^gsap($|\/)/],
+    },
+  },
+};
+
+// `vite build --mode cli`: the bundle baker in scripts/, for Node
+const cliConfig: UserConfig = {
+  build: {
+    outDir: "dist-cli",
+    ssr: "scripts/bake-bundle.ts",
+  },
+};
+
+const appConfig: UserConfig = {
   base: "./",
   build: {
     outDir: "dist",
@@ -27,4 +52,10 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+};
+
+export default defineConfig(({ mode }) => {
+  if (mode === "lib") return libraryConfig;
+  if (mode === "cli") return cliConfig;
+  return appConfig;
 });